@@ -3,12 +3,63 @@
  * Standalone implementation without axe-core
  */
 
+import standards from '../standards'
+import { getReferencedElements } from './dom'
+
+/**
+ * Role definition from the ARIA standards data
+ */
+export interface RoleDefinition {
+  type: string
+  requiredContext?: string[]
+  requiredOwned?: string[]
+  requiredAttrs?: string[]
+  allowedAttrs?: string[]
+  prohibitedAttrs?: string[]
+  superclassRole?: string[]
+  accessibleNameRequired?: boolean
+  nameFromContent?: boolean
+  childrenPresentational?: boolean
+}
+
+/**
+ * Attribute definition from the ARIA standards data
+ */
+export interface AttributeDefinition {
+  type: string
+  values?: string[]
+  minValue?: number
+  allowEmpty?: boolean
+  global?: boolean
+}
+
+/**
+ * Current value and bounds of a range widget
+ */
+export interface RangeValue {
+  /** Current value (null if missing or not a number) */
+  now: number | null
+  /** Minimum value (null if missing or not a number) */
+  min: number | null
+  /** Maximum value (null if missing or not a number) */
+  max: number | null
+  /** Human-readable value from aria-valuetext */
+  text: string | null
+}
+
 /**
  * Get accessible name for element
  * Simplified implementation of the accessible name computation
  * Based on: https://www.w3.org/TR/accname-1.2/
+ *
+ * Pass includeTitle: false to find out whether the name relies on the title attribute
  */
-export function getAccessibleName(element: Element): string {
+export function getAccessibleName(
+  element: Element,
+  options: { includeTitle?: boolean } = {}
+): string {
+  const { includeTitle = true } = options
+
   // Step 1: aria-labelledby (highest priority)
   const labelledBy = element.getAttribute('aria-labelledby')
   if (labelledBy) {
@@ -33,7 +84,7 @@ export function getAccessibleName(element: Element): string {
 
   // Step 3: Native labeling (for form elements)
   const tagName = element.tagName.toLowerCase()
-  if (['input', 'textarea', 'select'].includes(tagName)) {
+  if (['input', 'textarea', 'select', 'meter', 'progress'].includes(tagName)) {
     // Check for <label> element
     const label = findLabelElement(element)
     if (label?.textContent?.trim()) {
@@ -50,14 +101,19 @@ export function getAccessibleName(element: Element): string {
   }
 
   // Step 5: Title attribute
-  const title = element.getAttribute('title')
+  const title = includeTitle ? element.getAttribute('title') : null
   if (title?.trim()) {
     return title.trim()
   }
 
-  // Step 6: Text content (for buttons, links, etc.)
-  if (['button', 'a'].includes(tagName)) {
-    const text = element.textContent?.trim()
+  // Step 6: Text content (for buttons, links and roles named from content)
+  // The implicit role of section depends on its name, and region is not named from content
+  const role = tagName === 'section' && !element.hasAttribute('role') ? null : getRole(element)
+  if (
+    ['button', 'a', 'option'].includes(tagName) ||
+    (role && getRoleDefinition(role)?.nameFromContent)
+  ) {
+    const text = getTextFromContent(element).trim()
     if (text) {
       return text
     }
@@ -74,6 +130,21 @@ export function getAccessibleName(element: Element): string {
   return ''
 }
 
+/**
+ * Get the text of an element's content, skipping aria-hidden descendants
+ */
+function getTextFromContent(element: Element): string {
+  return Array.from(element.childNodes)
+    .map(node => {
+      if (node.nodeType === node.TEXT_NODE) return node.textContent || ''
+      if (node.nodeType !== node.ELEMENT_NODE) return ''
+
+      const child = node as Element
+      return child.getAttribute('aria-hidden') === 'true' ? '' : getTextFromContent(child)
+    })
+    .join('')
+}
+
 /**
  * Check if element has accessible name
  */
@@ -81,6 +152,11 @@ export function hasAccessibleName(element: Element): boolean {
   return getAccessibleName(element).length > 0
 }
 
+/**
+ * Elements that scope header and footer to their section
+ */
+const SECTIONING_SELECTOR = 'article, aside, main, nav, section'
+
 /**
  * Get role of element (explicit or implicit)
  */
@@ -102,7 +178,10 @@ export function getRole(element: Element): string | null {
     'aside': 'complementary',
     'button': 'button',
     'dialog': 'dialog',
-    'footer': 'contentinfo',
+    'footer': (el) => {
+      // Only page-level footers are contentinfo landmarks
+      return el.parentElement?.closest(SECTIONING_SELECTOR) ? null : 'contentinfo'
+    },
     'form': 'form',
     'h1': 'heading',
     'h2': 'heading',
@@ -110,7 +189,10 @@ export function getRole(element: Element): string | null {
     'h4': 'heading',
     'h5': 'heading',
     'h6': 'heading',
-    'header': 'banner',
+    'header': (el) => {
+      // Only page-level headers are banner landmarks
+      return el.parentElement?.closest(SECTIONING_SELECTOR) ? null : 'banner'
+    },
     'img': (el) => {
       const alt = el.getAttribute('alt')
       // Empty alt means presentational
@@ -136,8 +218,12 @@ export function getRole(element: Element): string | null {
     },
     'li': 'listitem',
     'main': 'main',
+    'meter': 'meter',
     'nav': 'navigation',
     'ol': 'list',
+    'optgroup': 'group',
+    'option': 'option',
+    'progress': 'progressbar',
     'section': (el) => {
       // section has role=region only if it has an accessible name
       return hasAccessibleName(el) ? 'region' : null
@@ -147,7 +233,18 @@ export function getRole(element: Element): string | null {
       return (el as HTMLSelectElement).multiple ? 'listbox' : 'combobox'
     },
     'table': 'table',
+    'tbody': 'rowgroup',
+    'td': (el) => {
+      // Cells of interactive grids are gridcells
+      const table = el.closest('table')
+      const tableRole = table ? getRole(table) : null
+      return tableRole === 'grid' || tableRole === 'treegrid' ? 'gridcell' : 'cell'
+    },
     'textarea': 'textbox',
+    'tfoot': 'rowgroup',
+    'th': (el) => el.getAttribute('scope') === 'row' ? 'rowheader' : 'columnheader',
+    'thead': 'rowgroup',
+    'tr': 'row',
     'ul': 'list',
   }
 
@@ -160,6 +257,173 @@ export function getRole(element: Element): string | null {
   return roleOrFunction || null
 }
 
+/**
+ * Get the standards definition for a role
+ */
+export function getRoleDefinition(role: string): RoleDefinition | null {
+  const roles = standards.ariaRoles as Record<string, RoleDefinition>
+  return roles[role] || null
+}
+
+/**
+ * Get the standards definition for an ARIA attribute
+ */
+export function getAttributeDefinition(attribute: string): AttributeDefinition | null {
+  const attrs = standards.ariaAttrs as Record<string, AttributeDefinition>
+  return attrs[attribute] || null
+}
+
+/**
+ * Check if an ARIA attribute value matches its standards definition
+ * Missing attributes are considered valid
+ */
+export function isValidAttributeValue(element: Element, attribute: string): boolean {
+  const value = element.getAttribute(attribute)
+  const definition = getAttributeDefinition(attribute)
+  if (value === null || !definition) return true
+
+  const trimmed = value.trim()
+  if (trimmed === '') {
+    return !!definition.allowEmpty
+  }
+
+  switch (definition.type) {
+    case 'boolean':
+      return trimmed === 'true' || trimmed === 'false'
+    case 'nmtoken':
+      return !definition.values || definition.values.includes(trimmed)
+    case 'nmtokens':
+      return trimmed
+        .split(/\s+/)
+        .every(token => !definition.values || definition.values.includes(token))
+    case 'int': {
+      if (!/^-?\d+$/.test(trimmed)) return false
+      return definition.minValue === undefined || parseInt(trimmed, 10) >= definition.minValue
+    }
+    case 'decimal':
+      return !isNaN(Number(trimmed))
+    default:
+      return true
+  }
+}
+
+/**
+ * Parse a numeric attribute value
+ */
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null
+
+  const number = Number(value)
+  return isNaN(number) ? null : number
+}
+
+/**
+ * Get the value and bounds of a range widget
+ * Native inputs, meters and progress bars use their own attributes, other elements use aria-value*
+ */
+export function getRangeValue(element: Element): RangeValue {
+  const text = element.getAttribute('aria-valuetext')
+  const tagName = element.tagName.toLowerCase()
+
+  if (tagName === 'progress') {
+    // A progress element without value is indeterminate
+    return {
+      now: parseNumber(element.getAttribute('value')),
+      min: 0,
+      max: parseNumber(element.getAttribute('max')) ?? 1,
+      text,
+    }
+  }
+
+  if (tagName === 'meter') {
+    return {
+      now: parseNumber(element.getAttribute('value')) ?? 0,
+      min: parseNumber(element.getAttribute('min')) ?? 0,
+      max: parseNumber(element.getAttribute('max')) ?? 1,
+      text,
+    }
+  }
+
+  if (tagName === 'input') {
+    const input = element as HTMLInputElement
+    // Range inputs default to 0-100, number inputs are unbounded
+    const isRange = input.type === 'range'
+
+    return {
+      now: parseNumber(input.value),
+      min: parseNumber(input.getAttribute('min')) ?? (isRange ? 0 : null),
+      max: parseNumber(input.getAttribute('max')) ?? (isRange ? 100 : null),
+      text,
+    }
+  }
+
+  // Meters and progress bars default to 0-100 in ARIA
+  const role = getRole(element)
+  const hasDefaultRange = role === 'meter' || role === 'progressbar'
+
+  return {
+    now: parseNumber(element.getAttribute('aria-valuenow')),
+    min: parseNumber(element.getAttribute('aria-valuemin')) ?? (hasDefaultRange ? 0 : null),
+    max: parseNumber(element.getAttribute('aria-valuemax')) ?? (hasDefaultRange ? 100 : null),
+    text,
+  }
+}
+
+/**
+ * Check if role removes the element's semantics from the accessibility tree
+ */
+function isPresentationalRole(role: string | null): boolean {
+  return role === null || role === 'none' || role === 'presentation'
+}
+
+/**
+ * Get the elements owned by an element in the accessibility tree
+ * Generic and presentational wrappers are skipped, aria-owns is followed
+ */
+export function getOwnedElements(element: Element): Element[] {
+  const owned: Element[] = []
+
+  const collect = (parent: Element) => {
+    for (const child of Array.from(parent.children)) {
+      if (isPresentationalRole(getRole(child))) {
+        collect(child)
+      } else {
+        owned.push(child)
+      }
+    }
+  }
+
+  collect(element)
+  owned.push(...getReferencedElements(element, 'aria-owns'))
+
+  // Deduplicate
+  return Array.from(new Set(owned))
+}
+
+/**
+ * Get the element that owns an element in the accessibility tree
+ * Inverse of getOwnedElements
+ */
+export function getOwnerElement(element: Element): Element | null {
+  // aria-owns takes precedence over the DOM hierarchy
+  if (element.id) {
+    const owner = element.ownerDocument?.querySelector(
+      `[aria-owns~="${element.id.replace(/"/g, '\\"')}"]`
+    )
+    if (owner) return owner
+  }
+
+  let current = element.parentElement
+  while (current) {
+    if (!isPresentationalRole(getRole(current))) {
+      return current
+    }
+    current = current.parentElement
+  }
+
+  return null
+}
+
 /**
  * Check if element is focusable
  */
@@ -212,6 +476,23 @@ export function isFocusable(element: Element): boolean {
   return false
 }
 
+/**
+ * Check if element is in the sequential tab order
+ * Unlike isFocusable, tabindex="-1" removes the element from the tab order
+ */
+export function isTabbable(element: Element): boolean {
+  if (!isFocusable(element)) {
+    return false
+  }
+
+  const tabindex = element.getAttribute('tabindex')
+  if (tabindex === null) {
+    return true
+  }
+
+  return parseInt(tabindex, 10) >= 0
+}
+
 /**
  * Find label element for a form control
  */
@@ -50,6 +50,22 @@ export function isExplicitlyHidden(element: Element): boolean {
   return !isVisible(element)
 }
 
+/**
+ * Check if a stylesheet hides the element or one of its ancestors
+ * Needs a window to compute styles; returns false without one
+ */
+export function isHiddenByStyle(element: Element): boolean {
+  const view = element.ownerDocument.defaultView
+  if (!view) return false
+
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const style = view.getComputedStyle(current)
+    if (style.display === 'none' || style.visibility === 'hidden') return true
+  }
+
+  return false
+}
+
 /**
  * Get all focusable elements within container
  */
@@ -86,6 +102,47 @@ export function findByAttribute(
   return Array.from(root.querySelectorAll(`[${attribute}="${escapedValue}"]`))
 }
 
+/**
+ * Resolve an ID reference attribute (aria-controls, aria-labelledby, etc.)
+ * to the elements it points at
+ */
+export function getReferencedElements(element: Element, attribute: string): Element[] {
+  const value = element.getAttribute(attribute)
+  if (!value?.trim()) return []
+
+  return value
+    .trim()
+    .split(/\s+/)
+    .map(id => element.ownerDocument?.getElementById(id))
+    .filter((el): el is HTMLElement => !!el)
+}
+
+/**
+ * Find elements that control a target via aria-controls
+ * or the common data-target convention
+ */
+export function findControllingElements(root: Document | Element, target: Element): Element[] {
+  if (!target.id) return []
+
+  const controllers: Element[] = []
+
+  // aria-controls (may list several ids)
+  controllers.push(
+    ...Array.from(root.querySelectorAll('[aria-controls]')).filter(el =>
+      getReferencedElements(el, 'aria-controls').includes(target)
+    )
+  )
+
+  // data-target (common pattern)
+  controllers.push(
+    ...findByAttribute(root, 'data-target', `#${target.id}`),
+    ...findByAttribute(root, 'data-target', target.id)
+  )
+
+  // Deduplicate
+  return Array.from(new Set(controllers))
+}
+
 /**
  * Get simple string representation of element
  */
@@ -179,6 +236,36 @@ export function getAncestors(element: Element): Element[] {
   return ancestors
 }
 
+/**
+ * Get content outside an element that users can still reach
+ * Walks the siblings of the element and its ancestors up to <body>;
+ * inert, aria-hidden, hidden and empty elements are skipped
+ */
+export function getExposedOutsideElements(element: Element): Element[] {
+  const exposed: Element[] = []
+  const body = element.ownerDocument?.body
+  let current: Element = element
+
+  while (current.parentElement && current !== body) {
+    for (const sibling of Array.from(current.parentElement.children)) {
+      if (sibling === current) continue
+      if (['script', 'style', 'template', 'noscript'].includes(sibling.tagName.toLowerCase())) continue
+      if (sibling.closest('[inert], [aria-hidden="true"]') || !isVisible(sibling)) continue
+
+      const hasContent = !!sibling.textContent?.trim() ||
+        getFocusableElements(sibling).length > 0 ||
+        sibling.matches('a[href], button, input, select, textarea, [tabindex]')
+      if (hasContent) {
+        exposed.push(sibling)
+      }
+    }
+
+    current = current.parentElement
+  }
+
+  return exposed
+}
+
 /**
  * Check if element is offscreen
  * (Simplified - requires layout information)
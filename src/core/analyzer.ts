@@ -1,7 +1,76 @@
-import type { AnalysisResult, AnalyzerConfig, Pattern } from './types'
+import type { AnalysisResult, AnalyzerConfig, Issue, Pattern } from './types'
 import { DialogDetector } from '../patterns/dialog/detector'
 import { DialogValidator } from '../patterns/dialog/validator'
 import type { DialogPattern } from '../patterns/dialog/types'
+import { TabsDetector } from '../patterns/tabs/detector'
+import { TabsValidator } from '../patterns/tabs/validator'
+import type { TabsPattern } from '../patterns/tabs/types'
+import { MenuDetector } from '../patterns/menu/detector'
+import { MenuValidator } from '../patterns/menu/validator'
+import type { MenuPattern } from '../patterns/menu/types'
+import { MenuButtonDetector } from '../patterns/menu-button/detector'
+import { MenuButtonValidator } from '../patterns/menu-button/validator'
+import type { MenuButtonPattern } from '../patterns/menu-button/types'
+import { ComboboxDetector } from '../patterns/combobox/detector'
+import { ComboboxValidator } from '../patterns/combobox/validator'
+import type { ComboboxPattern } from '../patterns/combobox/types'
+import { ListboxDetector } from '../patterns/listbox/detector'
+import { ListboxValidator } from '../patterns/listbox/validator'
+import type { ListboxPattern } from '../patterns/listbox/types'
+import { AccordionDetector } from '../patterns/accordion/detector'
+import { AccordionValidator } from '../patterns/accordion/validator'
+import type { AccordionPattern } from '../patterns/accordion/types'
+import { DisclosureDetector } from '../patterns/disclosure/detector'
+import { DisclosureValidator } from '../patterns/disclosure/validator'
+import type { DisclosurePattern } from '../patterns/disclosure/types'
+import { TooltipDetector } from '../patterns/tooltip/detector'
+import { TooltipValidator } from '../patterns/tooltip/validator'
+import type { TooltipPattern } from '../patterns/tooltip/types'
+import { TreeDetector } from '../patterns/tree/detector'
+import { TreeValidator } from '../patterns/tree/validator'
+import type { TreePattern } from '../patterns/tree/types'
+import { GridDetector } from '../patterns/grid/detector'
+import { GridValidator } from '../patterns/grid/validator'
+import type { GridPattern } from '../patterns/grid/types'
+import { RadioGroupDetector } from '../patterns/radiogroup/detector'
+import { RadioGroupValidator } from '../patterns/radiogroup/validator'
+import type { RadioGroupPattern } from '../patterns/radiogroup/types'
+import { CheckboxDetector } from '../patterns/checkbox/detector'
+import { CheckboxValidator } from '../patterns/checkbox/validator'
+import type { CheckboxPattern } from '../patterns/checkbox/types'
+import { SwitchDetector } from '../patterns/switch/detector'
+import { SwitchValidator } from '../patterns/switch/validator'
+import type { SwitchPattern } from '../patterns/switch/types'
+import { SliderDetector } from '../patterns/slider/detector'
+import { SliderValidator } from '../patterns/slider/validator'
+import type { SliderPattern } from '../patterns/slider/types'
+import { SpinbuttonDetector } from '../patterns/spinbutton/detector'
+import { SpinbuttonValidator } from '../patterns/spinbutton/validator'
+import type { SpinbuttonPattern } from '../patterns/spinbutton/types'
+import { ToolbarDetector } from '../patterns/toolbar/detector'
+import { ToolbarValidator } from '../patterns/toolbar/validator'
+import type { ToolbarPattern } from '../patterns/toolbar/types'
+import { CarouselDetector } from '../patterns/carousel/detector'
+import { CarouselValidator } from '../patterns/carousel/validator'
+import type { CarouselPattern } from '../patterns/carousel/types'
+import { FeedDetector } from '../patterns/feed/detector'
+import { FeedValidator } from '../patterns/feed/validator'
+import type { FeedPattern } from '../patterns/feed/types'
+import { BreadcrumbDetector } from '../patterns/breadcrumb/detector'
+import { BreadcrumbValidator } from '../patterns/breadcrumb/validator'
+import type { BreadcrumbPattern } from '../patterns/breadcrumb/types'
+import { LandmarksDetector } from '../patterns/landmarks/detector'
+import { LandmarksValidator } from '../patterns/landmarks/validator'
+import type { LandmarksPattern } from '../patterns/landmarks/types'
+import { LiveRegionDetector } from '../patterns/live-region/detector'
+import { LiveRegionValidator } from '../patterns/live-region/validator'
+import type { LiveRegionPattern } from '../patterns/live-region/types'
+import { WindowSplitterDetector } from '../patterns/window-splitter/detector'
+import { WindowSplitterValidator } from '../patterns/window-splitter/validator'
+import type { WindowSplitterPattern } from '../patterns/window-splitter/types'
+import { MeterDetector } from '../patterns/meter/detector'
+import { MeterValidator } from '../patterns/meter/validator'
+import type { MeterPattern } from '../patterns/meter/types'
 
 /**
  * Main analyzer that coordinates pattern detection and validation
@@ -32,6 +101,121 @@ export class Analyzer {
       patterns.push(...this.analyzeDialogs())
     }
 
+    // Detect and validate tabs patterns
+    if (this.shouldAnalyzePattern('tabs')) {
+      patterns.push(...this.analyzeTabs())
+    }
+
+    // Detect and validate menu and menubar patterns
+    if (this.shouldAnalyzePattern('menu')) {
+      patterns.push(...this.analyzeMenus())
+    }
+
+    // Detect and validate menu button patterns
+    if (this.shouldAnalyzePattern('menu-button')) {
+      patterns.push(...this.analyzeMenuButtons())
+    }
+
+    // Detect and validate combobox patterns
+    if (this.shouldAnalyzePattern('combobox')) {
+      patterns.push(...this.analyzeComboboxes())
+    }
+
+    // Detect and validate listbox patterns
+    if (this.shouldAnalyzePattern('listbox')) {
+      patterns.push(...this.analyzeListboxes())
+    }
+
+    // Detect and validate accordion patterns
+    if (this.shouldAnalyzePattern('accordion')) {
+      patterns.push(...this.analyzeAccordions())
+    }
+
+    // Detect and validate disclosure patterns
+    if (this.shouldAnalyzePattern('disclosure')) {
+      patterns.push(...this.analyzeDisclosures())
+    }
+
+    // Detect and validate tooltip patterns
+    if (this.shouldAnalyzePattern('tooltip')) {
+      patterns.push(...this.analyzeTooltips())
+    }
+
+    // Detect and validate tree view patterns
+    if (this.shouldAnalyzePattern('tree')) {
+      patterns.push(...this.analyzeTrees())
+    }
+
+    // Detect and validate grid and treegrid patterns
+    if (this.shouldAnalyzePattern('grid')) {
+      patterns.push(...this.analyzeGrids())
+    }
+
+    // Detect and validate radio group patterns
+    if (this.shouldAnalyzePattern('radiogroup')) {
+      patterns.push(...this.analyzeRadioGroups())
+    }
+
+    // Detect and validate checkbox patterns
+    if (this.shouldAnalyzePattern('checkbox')) {
+      patterns.push(...this.analyzeCheckboxes())
+    }
+
+    // Detect and validate switch patterns
+    if (this.shouldAnalyzePattern('switch')) {
+      patterns.push(...this.analyzeSwitches())
+    }
+
+    // Detect and validate slider patterns
+    if (this.shouldAnalyzePattern('slider')) {
+      patterns.push(...this.analyzeSliders())
+    }
+
+    // Detect and validate spinbutton patterns
+    if (this.shouldAnalyzePattern('spinbutton')) {
+      patterns.push(...this.analyzeSpinbuttons())
+    }
+
+    // Detect and validate toolbar patterns
+    if (this.shouldAnalyzePattern('toolbar')) {
+      patterns.push(...this.analyzeToolbars())
+    }
+
+    // Detect and validate carousel patterns
+    if (this.shouldAnalyzePattern('carousel')) {
+      patterns.push(...this.analyzeCarousels())
+    }
+
+    // Detect and validate feed patterns
+    if (this.shouldAnalyzePattern('feed')) {
+      patterns.push(...this.analyzeFeeds())
+    }
+
+    // Detect and validate breadcrumb patterns
+    if (this.shouldAnalyzePattern('breadcrumb')) {
+      patterns.push(...this.analyzeBreadcrumbs())
+    }
+
+    // Detect and validate landmark patterns
+    if (this.shouldAnalyzePattern('landmarks')) {
+      patterns.push(...this.analyzeLandmarks())
+    }
+
+    // Detect and validate live region patterns
+    if (this.shouldAnalyzePattern('live-region')) {
+      patterns.push(...this.analyzeLiveRegions())
+    }
+
+    // Detect and validate window splitter patterns
+    if (this.shouldAnalyzePattern('window-splitter')) {
+      patterns.push(...this.analyzeWindowSplitters())
+    }
+
+    // Detect and validate meter and progressbar patterns
+    if (this.shouldAnalyzePattern('meter')) {
+      patterns.push(...this.analyzeMeters())
+    }
+
     // Filter by confidence level
     const filteredPatterns = this.filterByConfidence(patterns)
 
@@ -55,19 +239,394 @@ export class Analyzer {
 
     // Validate each dialog
     for (const dialog of dialogs) {
-      dialog.issues = validator.validate(dialog)
-
-      // Remove suggestions if not requested
-      if (!this.config.includeSuggestions) {
-        dialog.issues.forEach(issue => {
-          delete issue.suggestion
-        })
-      }
+      dialog.issues = this.applyIssueConfig(validator.validate(dialog))
     }
 
     return dialogs
   }
 
+  /**
+   * Detect and validate tabs patterns
+   */
+  private analyzeTabs(): TabsPattern[] {
+    const detector = new TabsDetector(this.document)
+    const validator = new TabsValidator()
+
+    const tablists = detector.detectAll()
+
+    for (const tablist of tablists) {
+      tablist.issues = this.applyIssueConfig(validator.validate(tablist))
+    }
+
+    return tablists
+  }
+
+  /**
+   * Detect and validate menu and menubar patterns
+   */
+  private analyzeMenus(): MenuPattern[] {
+    const detector = new MenuDetector(this.document)
+    const validator = new MenuValidator()
+
+    const menus = detector.detectAll()
+
+    for (const menu of menus) {
+      menu.issues = this.applyIssueConfig(validator.validate(menu))
+    }
+
+    return menus
+  }
+
+  /**
+   * Detect and validate menu button patterns
+   */
+  private analyzeMenuButtons(): MenuButtonPattern[] {
+    const detector = new MenuButtonDetector(this.document)
+    const validator = new MenuButtonValidator()
+
+    const menuButtons = detector.detectAll()
+
+    for (const pattern of menuButtons) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return menuButtons
+  }
+
+  /**
+   * Detect and validate combobox patterns
+   */
+  private analyzeComboboxes(): ComboboxPattern[] {
+    const detector = new ComboboxDetector(this.document)
+    const validator = new ComboboxValidator()
+
+    const comboboxes = detector.detectAll()
+
+    for (const pattern of comboboxes) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return comboboxes
+  }
+
+  /**
+   * Detect and validate listbox patterns
+   */
+  private analyzeListboxes(): ListboxPattern[] {
+    const detector = new ListboxDetector(this.document)
+    const validator = new ListboxValidator()
+
+    const listboxes = detector.detectAll()
+
+    for (const pattern of listboxes) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return listboxes
+  }
+
+  /**
+   * Detect and validate accordion patterns
+   */
+  private analyzeAccordions(): AccordionPattern[] {
+    const detector = new AccordionDetector(this.document)
+    const validator = new AccordionValidator()
+
+    const accordions = detector.detectAll()
+
+    for (const pattern of accordions) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return accordions
+  }
+
+  /**
+   * Detect and validate disclosure patterns
+   */
+  private analyzeDisclosures(): DisclosurePattern[] {
+    const detector = new DisclosureDetector(this.document)
+    const validator = new DisclosureValidator()
+
+    const disclosures = detector.detectAll()
+
+    for (const pattern of disclosures) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return disclosures
+  }
+
+  /**
+   * Detect and validate tooltip patterns
+   */
+  private analyzeTooltips(): TooltipPattern[] {
+    const detector = new TooltipDetector(this.document)
+    const validator = new TooltipValidator()
+
+    const tooltips = detector.detectAll()
+
+    for (const pattern of tooltips) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return tooltips
+  }
+
+  /**
+   * Detect and validate tree view patterns
+   */
+  private analyzeTrees(): TreePattern[] {
+    const detector = new TreeDetector(this.document)
+    const validator = new TreeValidator()
+
+    const trees = detector.detectAll()
+
+    for (const pattern of trees) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return trees
+  }
+
+  /**
+   * Detect and validate grid and treegrid patterns
+   */
+  private analyzeGrids(): GridPattern[] {
+    const detector = new GridDetector(this.document)
+    const validator = new GridValidator()
+
+    const grids = detector.detectAll()
+
+    for (const pattern of grids) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return grids
+  }
+
+  /**
+   * Detect and validate radio group patterns
+   */
+  private analyzeRadioGroups(): RadioGroupPattern[] {
+    const detector = new RadioGroupDetector(this.document)
+    const validator = new RadioGroupValidator()
+
+    const radioGroups = detector.detectAll()
+
+    for (const pattern of radioGroups) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return radioGroups
+  }
+
+  /**
+   * Detect and validate checkbox patterns
+   */
+  private analyzeCheckboxes(): CheckboxPattern[] {
+    const detector = new CheckboxDetector(this.document)
+    const validator = new CheckboxValidator()
+
+    const checkboxes = detector.detectAll()
+
+    for (const pattern of checkboxes) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return checkboxes
+  }
+
+  /**
+   * Detect and validate switch patterns
+   */
+  private analyzeSwitches(): SwitchPattern[] {
+    const detector = new SwitchDetector(this.document)
+    const validator = new SwitchValidator()
+
+    const switches = detector.detectAll()
+
+    for (const pattern of switches) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return switches
+  }
+
+  /**
+   * Detect and validate slider patterns
+   */
+  private analyzeSliders(): SliderPattern[] {
+    const detector = new SliderDetector(this.document)
+    const validator = new SliderValidator()
+
+    const sliders = detector.detectAll()
+
+    for (const pattern of sliders) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return sliders
+  }
+
+  /**
+   * Detect and validate spinbutton patterns
+   */
+  private analyzeSpinbuttons(): SpinbuttonPattern[] {
+    const detector = new SpinbuttonDetector(this.document)
+    const validator = new SpinbuttonValidator()
+
+    const spinbuttons = detector.detectAll()
+
+    for (const pattern of spinbuttons) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return spinbuttons
+  }
+
+  /**
+   * Detect and validate toolbar patterns
+   */
+  private analyzeToolbars(): ToolbarPattern[] {
+    const detector = new ToolbarDetector(this.document)
+    const validator = new ToolbarValidator()
+
+    const toolbars = detector.detectAll()
+
+    for (const pattern of toolbars) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return toolbars
+  }
+
+  /**
+   * Detect and validate carousel patterns
+   */
+  private analyzeCarousels(): CarouselPattern[] {
+    const detector = new CarouselDetector(this.document)
+    const validator = new CarouselValidator()
+
+    const carousels = detector.detectAll()
+
+    for (const pattern of carousels) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return carousels
+  }
+
+  /**
+   * Detect and validate feed patterns
+   */
+  private analyzeFeeds(): FeedPattern[] {
+    const detector = new FeedDetector(this.document)
+    const validator = new FeedValidator()
+
+    const feeds = detector.detectAll()
+
+    for (const pattern of feeds) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return feeds
+  }
+
+  /**
+   * Detect and validate breadcrumb patterns
+   */
+  private analyzeBreadcrumbs(): BreadcrumbPattern[] {
+    const detector = new BreadcrumbDetector(this.document)
+    const validator = new BreadcrumbValidator()
+
+    const breadcrumbs = detector.detectAll()
+
+    for (const pattern of breadcrumbs) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return breadcrumbs
+  }
+
+  /**
+   * Detect and validate landmark patterns
+   */
+  private analyzeLandmarks(): LandmarksPattern[] {
+    const detector = new LandmarksDetector(this.document)
+    const validator = new LandmarksValidator()
+
+    const landmarks = detector.detectAll()
+
+    for (const pattern of landmarks) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return landmarks
+  }
+
+  /**
+   * Detect and validate live region patterns
+   */
+  private analyzeLiveRegions(): LiveRegionPattern[] {
+    const detector = new LiveRegionDetector(this.document)
+    const validator = new LiveRegionValidator()
+
+    const liveRegions = detector.detectAll()
+
+    for (const pattern of liveRegions) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return liveRegions
+  }
+
+  /**
+   * Detect and validate window splitter patterns
+   */
+  private analyzeWindowSplitters(): WindowSplitterPattern[] {
+    const detector = new WindowSplitterDetector(this.document)
+    const validator = new WindowSplitterValidator()
+
+    const windowSplitters = detector.detectAll()
+
+    for (const pattern of windowSplitters) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return windowSplitters
+  }
+
+  /**
+   * Detect and validate meter and progressbar patterns
+   */
+  private analyzeMeters(): MeterPattern[] {
+    const detector = new MeterDetector(this.document)
+    const validator = new MeterValidator()
+
+    const meters = detector.detectAll()
+
+    for (const pattern of meters) {
+      pattern.issues = this.applyIssueConfig(validator.validate(pattern))
+    }
+
+    return meters
+  }
+
+  /**
+   * Apply issue-level configuration to validator output
+   */
+  private applyIssueConfig(issues: Issue[]): Issue[] {
+    // Remove suggestions if not requested
+    if (!this.config.includeSuggestions) {
+      issues.forEach(issue => {
+        delete issue.suggestion
+      })
+    }
+
+    return issues
+  }
+
   /**
    * Check if pattern should be analyzed
    */
@@ -87,4 +87,9 @@ export interface RunnerConfig {
   analyzerConfig?: AnalyzerConfig
   /** Callback when scan state changes */
   onScanStateChange?: (isRunning: boolean) => void
+  /**
+   * Interact with the page to test keyboard behavior (browser only)
+   * Opens dialogs from their triggers, presses Escape and checks focus
+   */
+  interactive?: boolean
 }
\ No newline at end of file
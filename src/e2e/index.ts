@@ -45,6 +45,13 @@ export interface AnalyzeOptions {
    * Analyze a specific element instead of the whole page
    */
   selector?: string
+
+  /**
+   * Interact with the page to test keyboard behavior
+   * Opens each dialog from its triggers, presses Escape and checks that focus
+   * moves into the dialog and back to the trigger
+   */
+  interactive?: boolean
 }
 
 /**
@@ -107,6 +114,9 @@ const injectedPages = new WeakSet<object>()
  *   minConfidence: 'high',
  *   selector: '#my-dialog'
  * })
+ *
+ * // Also test dialog keyboard behavior
+ * const results = await analyze(page, { interactive: true })
  * ```
  */
 export async function analyze(
@@ -129,10 +139,11 @@ export async function analyze(
     includeSuggestions: options.includeSuggestions ?? true,
   }
   const selector = options.selector
+  const interactive = options.interactive ?? false
 
   // Run analysis in browser context
   return page.evaluate(
-    ({ config, selector }) => {
+    ({ config, selector, interactive }) => {
       const interaxtion = (
         window as unknown as {
           interaxtion: {
@@ -148,7 +159,7 @@ export async function analyze(
         throw new Error('interaxtion browser bundle not loaded')
       }
 
-      const runner = new interaxtion.BrowserRunner({ analyzerConfig: config })
+      const runner = new interaxtion.BrowserRunner({ analyzerConfig: config, interactive })
 
       if (selector) {
         const element = document.querySelector(selector)
@@ -160,7 +171,7 @@ export async function analyze(
 
       return runner.run()
     },
-    { config, selector }
+    { config, selector, interactive }
   ) as Promise<AnalysisResults>
 }
 
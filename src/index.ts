@@ -35,6 +35,123 @@ export type {
   DialogRule,
 } from './patterns/dialog/types'
 
+export type {
+  TabsPattern,
+  TabsRule,
+} from './patterns/tabs/types'
+
+export type {
+  MenuPattern,
+  MenuRule,
+} from './patterns/menu/types'
+
+export type {
+  MenuButtonPattern,
+  MenuButtonRule,
+} from './patterns/menu-button/types'
+
+export type {
+  ComboboxPattern,
+  ComboboxRule,
+} from './patterns/combobox/types'
+
+export type {
+  ListboxPattern,
+  ListboxRule,
+} from './patterns/listbox/types'
+
+export type {
+  AccordionPattern,
+  AccordionRule,
+} from './patterns/accordion/types'
+
+export type {
+  DisclosurePattern,
+  DisclosureRule,
+} from './patterns/disclosure/types'
+
+export type {
+  TooltipPattern,
+  TooltipRule,
+} from './patterns/tooltip/types'
+
+export type {
+  TreePattern,
+  TreeRule,
+  TreeItemPosition,
+} from './patterns/tree/types'
+
+export type {
+  GridPattern,
+  GridRule,
+} from './patterns/grid/types'
+
+export type {
+  RadioGroupPattern,
+  RadioGroupRule,
+} from './patterns/radiogroup/types'
+
+export type {
+  CheckboxPattern,
+  CheckboxRule,
+} from './patterns/checkbox/types'
+
+export type {
+  SwitchPattern,
+  SwitchRule,
+} from './patterns/switch/types'
+
+export type {
+  SliderPattern,
+  SliderRule,
+} from './patterns/slider/types'
+
+export type {
+  SpinbuttonPattern,
+  SpinbuttonRule,
+} from './patterns/spinbutton/types'
+
+export type {
+  ToolbarPattern,
+  ToolbarRule,
+} from './patterns/toolbar/types'
+
+export type {
+  CarouselPattern,
+  CarouselRule,
+} from './patterns/carousel/types'
+
+export type {
+  FeedPattern,
+  FeedRule,
+} from './patterns/feed/types'
+
+export type {
+  BreadcrumbPattern,
+  BreadcrumbRule,
+} from './patterns/breadcrumb/types'
+
+export type {
+  LandmarksPattern,
+  LandmarksRule,
+  LandmarkRole,
+} from './patterns/landmarks/types'
+
+export type {
+  LiveRegionPattern,
+  LiveRegionRule,
+} from './patterns/live-region/types'
+
+export type {
+  WindowSplitterPattern,
+  WindowSplitterRule,
+} from './patterns/window-splitter/types'
+
+export type {
+  MeterPattern,
+  MeterRule,
+} from './patterns/meter/types'
+
 // Utilities
 export * from './common/aria'
 export * from './common/dom'
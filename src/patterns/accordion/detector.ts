@@ -0,0 +1,66 @@
+import type { AccordionPattern } from './types'
+import { getReferencedElements } from '../../common/dom'
+import { getAriaLevel, getRole } from '../../common/aria'
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, [role="heading"]'
+
+/**
+ * Detects accordion patterns in the document
+ */
+export class AccordionDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all accordion patterns
+   * Headers that share a parent element form one accordion
+   */
+  detectAll(): AccordionPattern[] {
+    const accordions = new Map<Element, { headings: Element[]; buttons: Element[] }>()
+
+    const buttons = Array.from(
+      this.document.querySelectorAll('[aria-expanded]')
+    ).filter(el => getRole(el) === 'button')
+
+    for (const button of buttons) {
+      const heading = button.closest(HEADING_SELECTOR)
+      if (!heading) continue
+
+      const container = heading.parentElement || heading
+      const accordion = accordions.get(container) || { headings: [], buttons: [] }
+      accordion.headings.push(heading)
+      accordion.buttons.push(button)
+      accordions.set(container, accordion)
+    }
+
+    return Array.from(accordions).map(([container, { headings, buttons }]) =>
+      this.createAccordionPattern(container, headings, buttons)
+    )
+  }
+
+  /**
+   * Create an accordion pattern object
+   */
+  private createAccordionPattern(
+    container: Element,
+    headings: Element[],
+    buttons: Element[]
+  ): AccordionPattern {
+    return {
+      type: 'accordion',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element: container,
+      relatedElements: {
+        headings,
+        buttons,
+        panels: buttons.flatMap(button =>
+          getReferencedElements(button, 'aria-controls')
+        ),
+      },
+      metadata: {
+        headingLevels: headings.map(heading => getAriaLevel(heading)),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
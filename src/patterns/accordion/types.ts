@@ -0,0 +1,38 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Accordion-specific pattern with related elements
+ */
+export interface AccordionPattern extends Pattern {
+  type: 'accordion'
+  relatedElements: {
+    /** Headings that wrap the accordion buttons */
+    headings: Element[]
+    /** Buttons with aria-expanded that toggle the panels */
+    buttons: Element[]
+    /** Panels controlled by the buttons */
+    panels: Element[]
+  }
+  metadata: {
+    /** Heading level of each accordion header (null when unknown) */
+    headingLevels: (number | null)[]
+  }
+}
+
+/**
+ * Accordion validation rule
+ */
+export interface AccordionRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: AccordionPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
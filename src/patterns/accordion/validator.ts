@@ -0,0 +1,111 @@
+import type { AccordionPattern, AccordionRule } from './types'
+import type { Issue } from '../../core/types'
+import { getRole } from '../../common/aria'
+import { getReferencedElements, isExplicitlyHidden } from '../../common/dom'
+
+/**
+ * APG Accordion Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/accordion/
+ */
+const ACCORDION_RULES: AccordionRule[] = [
+  {
+    id: 'accordion-button-only-child',
+    description: 'Accordion button must be the only child of its heading',
+    severity: 'error',
+    test: (pattern) => {
+      const { headings, buttons } = pattern.relatedElements
+
+      return headings.every((heading, index) => {
+        const button = buttons[index]
+        const hasOtherElements =
+          heading.children.length !== 1 || heading.firstElementChild !== button
+        const hasOtherText =
+          (heading.textContent || '').trim() !== (button.textContent || '').trim()
+
+        return !hasOtherElements && !hasOtherText
+      })
+    },
+    message: 'Accordion button is not the only child of its heading',
+    suggestion: 'Wrap only the button in the heading element and move other content into the button or panel',
+  },
+  {
+    id: 'accordion-heading-level',
+    description: 'Accordion headings must share the same level',
+    severity: 'warning',
+    test: (pattern) => {
+      const levels = pattern.metadata.headingLevels
+      return !levels.includes(null) && new Set(levels).size <= 1
+    },
+    message: 'Accordion headings have missing or inconsistent levels',
+    suggestion: 'Use the same h1-h6 element, or the same aria-level on role="heading", for every accordion header',
+  },
+  {
+    id: 'accordion-controls',
+    description: 'Accordion buttons must control a panel',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.buttons.every(button =>
+        getReferencedElements(button, 'aria-controls').length > 0
+      )
+    },
+    message: 'Accordion button aria-controls does not reference an existing panel',
+    suggestion: 'Add aria-controls to each button pointing at the id of its panel',
+  },
+  {
+    id: 'accordion-expanded-state',
+    description: 'aria-expanded must match the panel visibility',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.buttons.every(button => {
+        const isCollapsed = button.getAttribute('aria-expanded') === 'false'
+        return getReferencedElements(button, 'aria-controls').every(panel =>
+          isExplicitlyHidden(panel) === isCollapsed
+        )
+      })
+    },
+    message: 'Accordion button aria-expanded does not match whether its panel is hidden',
+    suggestion: 'Set aria-expanded="false" when the panel is hidden and "true" when it is shown',
+  },
+  {
+    id: 'accordion-region-labelled',
+    description: 'Region panels must be labelled by their button',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.buttons.every(button =>
+        getReferencedElements(button, 'aria-controls')
+          .filter(panel => getRole(panel) === 'region')
+          .every(panel => getReferencedElements(panel, 'aria-labelledby').includes(button))
+      )
+    },
+    message: 'Accordion panel with role="region" is not labelled by its button',
+    suggestion: 'Add aria-labelledby to the region pointing at the id of its accordion button',
+  },
+]
+
+/**
+ * Validates accordion patterns against APG rules
+ */
+export class AccordionValidator {
+  /**
+   * Validate an accordion pattern
+   */
+  validate(pattern: AccordionPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of ACCORDION_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
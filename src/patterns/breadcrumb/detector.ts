@@ -0,0 +1,86 @@
+import type { BreadcrumbPattern } from './types'
+import { getAccessibleName, getRole } from '../../common/aria'
+
+/**
+ * Names and class names used for breadcrumb trails
+ */
+const BREADCRUMB_NAME = /breadcrumb/i
+
+/**
+ * Detects breadcrumb patterns in the document
+ */
+export class BreadcrumbDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all breadcrumb patterns
+   */
+  detectAll(): BreadcrumbPattern[] {
+    const patterns: BreadcrumbPattern[] = []
+
+    // Level 1: Navigation landmarks labelled as breadcrumb
+    patterns.push(...this.detectLabelledNavigation())
+
+    // Level 2: Elements with breadcrumb class names
+    patterns.push(...this.detectHeuristicBreadcrumbs(patterns.map(p => p.element)))
+
+    return patterns
+  }
+
+  /**
+   * Detect navigation landmarks whose name mentions breadcrumbs
+   */
+  private detectLabelledNavigation(): BreadcrumbPattern[] {
+    const elements = this.document.querySelectorAll('nav, [role="navigation"]')
+
+    return Array.from(elements)
+      .filter(nav => getRole(nav) === 'navigation' && BREADCRUMB_NAME.test(getAccessibleName(nav)))
+      .map(nav =>
+        this.createBreadcrumbPattern(
+          nav,
+          nav.hasAttribute('role') ? 'explicit-role' : 'native-element',
+          'high'
+        )
+      )
+  }
+
+  /**
+   * Detect breadcrumb trails by class name
+   */
+  private detectHeuristicBreadcrumbs(detected: Element[]): BreadcrumbPattern[] {
+    const elements = Array.from(this.document.querySelectorAll('[class*="breadcrumb" i]'))
+
+    return elements
+      // Keep the outermost element of each trail
+      .filter(element => !detected.some(other => other.contains(element)))
+      .filter(element => !elements.some(other => other !== element && other.contains(element)))
+      .map(element => this.createBreadcrumbPattern(element, 'heuristic', 'medium'))
+  }
+
+  /**
+   * Create a breadcrumb pattern object
+   */
+  private createBreadcrumbPattern(
+    element: Element,
+    detectionMethod: BreadcrumbPattern['detectionMethod'],
+    confidence: BreadcrumbPattern['confidence']
+  ): BreadcrumbPattern {
+    const list = element.matches('ol, ul') ? element : element.querySelector('ol, ul')
+
+    return {
+      type: 'breadcrumb',
+      confidence,
+      detectionMethod,
+      element,
+      relatedElements: {
+        list,
+        links: Array.from(element.querySelectorAll('a[href]')),
+        currentItem: element.querySelector('[aria-current="page"]'),
+      },
+      metadata: {
+        isOrderedList: list?.tagName.toLowerCase() === 'ol',
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Breadcrumb-specific pattern with related elements
+ */
+export interface BreadcrumbPattern extends Pattern {
+  type: 'breadcrumb'
+  relatedElements: {
+    /** List that holds the breadcrumb trail (null if none) */
+    list: Element | null
+    /** Links in the trail */
+    links: Element[]
+    /** Element with aria-current="page" (null if none) */
+    currentItem: Element | null
+  }
+  metadata: {
+    /** Whether the trail uses an ordered list */
+    isOrderedList: boolean
+  }
+}
+
+/**
+ * Breadcrumb validation rule
+ */
+export interface BreadcrumbRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: BreadcrumbPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
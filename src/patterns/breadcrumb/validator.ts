@@ -0,0 +1,78 @@
+import type { BreadcrumbPattern, BreadcrumbRule } from './types'
+import type { Issue } from '../../core/types'
+import { getRole, hasAccessibleName } from '../../common/aria'
+
+/**
+ * APG Breadcrumb Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/breadcrumb/
+ */
+const BREADCRUMB_RULES: BreadcrumbRule[] = [
+  {
+    id: 'breadcrumb-navigation',
+    description: 'Breadcrumb trail must be in a navigation landmark',
+    severity: 'error',
+    test: (pattern) => getRole(pattern.element) === 'navigation',
+    message: 'Breadcrumb trail is not a navigation landmark',
+    suggestion: 'Wrap the breadcrumb trail in a <nav> element',
+  },
+  {
+    id: 'breadcrumb-label',
+    description: 'Breadcrumb navigation must have a label',
+    severity: 'error',
+    test: (pattern) => hasAccessibleName(pattern.element),
+    message: 'Breadcrumb navigation has no label',
+    suggestion: 'Add aria-label="Breadcrumb" to the <nav> element',
+  },
+  {
+    id: 'breadcrumb-ordered-list',
+    description: 'Breadcrumb links should be in an ordered list',
+    severity: 'warning',
+    test: (pattern) => pattern.metadata.isOrderedList,
+    message: 'Breadcrumb links are not in an ordered list',
+    suggestion: 'Put each link in an <li> of an <ol> so the trail order is announced',
+  },
+  {
+    id: 'breadcrumb-links',
+    description: 'Breadcrumb trail must contain links',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.links.length > 0,
+    message: 'Breadcrumb trail contains no links',
+    suggestion: 'Use <a href> for each ancestor page in the trail',
+  },
+  {
+    id: 'breadcrumb-current-page',
+    description: 'The current page must be marked with aria-current="page"',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.currentItem !== null,
+    message: 'Breadcrumb trail does not mark the current page',
+    suggestion: 'Add aria-current="page" to the last item of the trail',
+  },
+]
+
+/**
+ * Validates breadcrumb patterns against APG rules
+ */
+export class BreadcrumbValidator {
+  /**
+   * Validate a breadcrumb pattern
+   */
+  validate(pattern: BreadcrumbPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of BREADCRUMB_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
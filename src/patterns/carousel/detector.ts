@@ -0,0 +1,108 @@
+import type { CarouselPattern } from './types'
+import { getAccessibleName, getRole } from '../../common/aria'
+
+/**
+ * Names of buttons that start or stop rotation
+ */
+const ROTATION_CONTROL_NAME = /\b(pause|stop|play|start)\b/i
+
+/**
+ * Names of rotation controls shown while the carousel rotates
+ */
+const STOP_ROTATION_NAME = /\b(pause|stop)\b/i
+
+/**
+ * Detects carousel patterns in the document
+ */
+export class CarouselDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all carousel patterns
+   */
+  detectAll(): CarouselPattern[] {
+    // Level 1: aria-roledescription="carousel"
+    // The region or group role is checked by the validator, so missing semantics are reported
+    const elements = this.document.querySelectorAll('[aria-roledescription]')
+
+    return Array.from(elements)
+      .filter(element => this.hasRoleDescription(element, 'carousel'))
+      .map(carousel => this.createCarouselPattern(carousel))
+  }
+
+  /**
+   * Create a carousel pattern object
+   */
+  private createCarouselPattern(carousel: Element): CarouselPattern {
+    const slides = Array.from(carousel.querySelectorAll('[aria-roledescription]')).filter(
+      el => this.hasRoleDescription(el, 'slide')
+    )
+    const slideContainer = this.findSlideContainer(carousel, slides)
+    const rotationControl = this.findRotationControl(carousel, slides)
+    const isAutoplay = rotationControl !== null || this.hasAutoplayAttribute(carousel)
+
+    return {
+      type: 'carousel',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element: carousel,
+      relatedElements: {
+        slides,
+        slideContainer,
+        rotationControl,
+      },
+      metadata: {
+        isAutoplay,
+        // The rotation control offers the opposite of the current state
+        isRotating: rotationControl
+          ? STOP_ROTATION_NAME.test(getAccessibleName(rotationControl))
+          : isAutoplay,
+        liveValue: slideContainer?.getAttribute('aria-live') ?? null,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Check aria-roledescription case-insensitively
+   */
+  private hasRoleDescription(element: Element, description: string): boolean {
+    return element.getAttribute('aria-roledescription')?.trim().toLowerCase() === description
+  }
+
+  /**
+   * Find the element that wraps the slides
+   * Prefers an ancestor with aria-live, falls back to the first slide's parent
+   */
+  private findSlideContainer(carousel: Element, slides: Element[]): Element | null {
+    if (slides.length === 0) return null
+
+    const live = slides[0].parentElement?.closest('[aria-live]')
+    if (live && carousel.contains(live)) return live
+
+    return slides[0].parentElement
+  }
+
+  /**
+   * Find the button that starts or stops rotation
+   * Buttons inside slides belong to the slide content (e.g. "Play video")
+   */
+  private findRotationControl(carousel: Element, slides: Element[]): Element | null {
+    return Array.from(carousel.querySelectorAll('*')).find(
+      el => getRole(el) === 'button' &&
+        !slides.some(slide => slide.contains(el)) &&
+        ROTATION_CONTROL_NAME.test(getAccessibleName(el))
+    ) || null
+  }
+
+  /**
+   * Check common autoplay markers of carousel libraries
+   */
+  private hasAutoplayAttribute(carousel: Element): boolean {
+    const autoplay = carousel.getAttribute('data-autoplay')
+    if (autoplay !== null && autoplay !== 'false') return true
+
+    return carousel.getAttribute('data-ride') === 'carousel' ||
+      carousel.getAttribute('data-bs-ride') === 'carousel'
+  }
+}
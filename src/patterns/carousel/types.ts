@@ -0,0 +1,42 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Carousel-specific pattern with related elements
+ */
+export interface CarouselPattern extends Pattern {
+  type: 'carousel'
+  relatedElements: {
+    /** Elements with aria-roledescription="slide" */
+    slides: Element[]
+    /** Element that wraps the slides */
+    slideContainer: Element | null
+    /** Button that starts or stops automatic rotation */
+    rotationControl: Element | null
+  }
+  metadata: {
+    /** Whether the carousel rotates automatically */
+    isAutoplay: boolean
+    /** Whether the carousel is currently rotating */
+    isRotating: boolean
+    /** aria-live value of the slide container (null if missing) */
+    liveValue: string | null
+  }
+}
+
+/**
+ * Carousel validation rule
+ */
+export interface CarouselRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: CarouselPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,109 @@
+import type { CarouselPattern, CarouselRule } from './types'
+import type { Issue } from '../../core/types'
+import { getAccessibleName, getRole, hasAccessibleName } from '../../common/aria'
+
+/**
+ * APG Carousel Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/carousel/
+ */
+const CAROUSEL_RULES: CarouselRule[] = [
+  {
+    id: 'carousel-has-slides',
+    description: 'Carousel must contain slides',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.slides.length > 0,
+    message: 'Carousel contains no slides',
+    suggestion: 'Add aria-roledescription="slide" to each slide (role="group")',
+  },
+  {
+    id: 'carousel-role',
+    description: 'Carousel must be a region or group',
+    severity: 'error',
+    test: (pattern) => {
+      const role = getRole(pattern.element)
+      return role === 'region' || role === 'group'
+    },
+    message: 'Carousel has aria-roledescription but no region or group role',
+    suggestion: 'Use a labelled <section>, or add role="region" (or role="group") to the carousel',
+  },
+  {
+    id: 'carousel-label',
+    description: 'Carousel must have an accessible name',
+    severity: 'error',
+    test: (pattern) => hasAccessibleName(pattern.element),
+    message: 'Carousel has no accessible name',
+    suggestion: 'Add aria-label or aria-labelledby to the carousel',
+  },
+  {
+    id: 'carousel-rotation-control',
+    description: 'Auto-rotating carousel must have a pause or stop button',
+    severity: 'error',
+    test: (pattern) => !pattern.metadata.isAutoplay || pattern.relatedElements.rotationControl !== null,
+    message: 'Carousel rotates automatically but has no pause or stop button',
+    suggestion: 'Add a button that stops rotation, labelled "Stop automatic slide show"',
+  },
+  {
+    id: 'carousel-live-region',
+    description: 'Slide container must use aria-live="off" while rotating and "polite" when stopped',
+    severity: 'error',
+    test: (pattern) => {
+      if (!pattern.relatedElements.slideContainer) return true
+
+      const expected = pattern.metadata.isRotating ? 'off' : 'polite'
+      return pattern.metadata.liveValue === expected
+    },
+    message: 'Slide container has the wrong aria-live value for the rotation state',
+    suggestion: 'Set aria-live="off" while the carousel rotates and aria-live="polite" when it is stopped',
+  },
+  {
+    id: 'carousel-slide-label',
+    description: 'Each slide must have a label',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.slides.every(slide => hasAccessibleName(slide)),
+    message: 'Carousel slide has no label',
+    suggestion: 'Label each slide with its position, e.g. aria-label="3 of 7"',
+  },
+  {
+    id: 'carousel-slide-position',
+    description: 'Slide labels should give the position in the set',
+    severity: 'warning',
+    test: (pattern) => {
+      const { slides } = pattern.relatedElements
+
+      return slides.every(slide => {
+        const name = getAccessibleName(slide)
+        return !name || new RegExp(`\\b\\d+\\s+of\\s+${slides.length}\\b`, 'i').test(name)
+      })
+    },
+    message: 'Slide label does not include its position, e.g. "3 of 7"',
+    suggestion: 'Include the slide number and total in each slide label',
+  },
+]
+
+/**
+ * Validates carousel patterns against APG rules
+ */
+export class CarouselValidator {
+  /**
+   * Validate a carousel pattern
+   */
+  validate(pattern: CarouselPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of CAROUSEL_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,45 @@
+import type { CheckboxPattern } from './types'
+import { getReferencedElements } from '../../common/dom'
+import { getRole } from '../../common/aria'
+
+/**
+ * Detects custom checkbox patterns in the document
+ */
+export class CheckboxDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all checkbox patterns
+   */
+  detectAll(): CheckboxPattern[] {
+    // Level 1: Explicit role="checkbox"
+    // Native checkboxes get their state from the browser and are not validated here
+    const elements = this.document.querySelectorAll('[role="checkbox"]')
+
+    return Array.from(elements).map(element => this.createCheckboxPattern(element))
+  }
+
+  /**
+   * Create a checkbox pattern object
+   */
+  private createCheckboxPattern(element: Element): CheckboxPattern {
+    const controlledCheckboxes = getReferencedElements(element, 'aria-controls').filter(
+      el => getRole(el) === 'checkbox'
+    )
+
+    return {
+      type: 'checkbox',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element,
+      relatedElements: {
+        controlledCheckboxes,
+      },
+      metadata: {
+        checkedState: element.getAttribute('aria-checked'),
+        isGroupController: controlledCheckboxes.length > 0,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Checkbox-specific pattern with related elements
+ */
+export interface CheckboxPattern extends Pattern {
+  type: 'checkbox'
+  relatedElements: {
+    /** Checkboxes controlled by this checkbox via aria-controls */
+    controlledCheckboxes: Element[]
+  }
+  metadata: {
+    /** Value of aria-checked (null if missing) */
+    checkedState: string | null
+    /** Whether the checkbox controls a group of checkboxes ("select all") */
+    isGroupController: boolean
+  }
+}
+
+/**
+ * Checkbox validation rule
+ */
+export interface CheckboxRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: CheckboxPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
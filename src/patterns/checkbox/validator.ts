@@ -0,0 +1,97 @@
+import type { CheckboxPattern, CheckboxRule } from './types'
+import type { Issue } from '../../core/types'
+import { hasAccessibleName, isFocusable, isValidAttributeValue } from '../../common/aria'
+
+/**
+ * Check if a native or custom checkbox is checked
+ */
+function isChecked(checkbox: Element): boolean {
+  if (checkbox.tagName.toLowerCase() === 'input') {
+    return (checkbox as HTMLInputElement).checked
+  }
+
+  return checkbox.getAttribute('aria-checked') === 'true'
+}
+
+/**
+ * APG Checkbox Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/checkbox/
+ */
+const CHECKBOX_RULES: CheckboxRule[] = [
+  {
+    id: 'checkbox-checked-required',
+    description: 'Checkbox must expose its state with aria-checked',
+    severity: 'error',
+    test: (pattern) => pattern.metadata.checkedState !== null,
+    message: 'Checkbox is missing aria-checked',
+    suggestion: 'Add aria-checked="true", "false" or "mixed"',
+  },
+  {
+    id: 'checkbox-checked-value',
+    description: 'aria-checked must have a valid value',
+    severity: 'error',
+    test: (pattern) => isValidAttributeValue(pattern.element, 'aria-checked'),
+    message: 'Checkbox has an invalid aria-checked value',
+    suggestion: 'Use aria-checked="true", "false" or "mixed"',
+  },
+  {
+    id: 'checkbox-focusable',
+    description: 'Checkbox must be focusable',
+    severity: 'error',
+    test: (pattern) => isFocusable(pattern.element),
+    message: 'Checkbox cannot receive keyboard focus',
+    suggestion: 'Add tabindex="0" to the checkbox',
+  },
+  {
+    id: 'checkbox-name',
+    description: 'Checkbox must have an accessible name',
+    severity: 'error',
+    test: (pattern) => hasAccessibleName(pattern.element),
+    message: 'Checkbox has no accessible name',
+    suggestion: 'Add text content, aria-label, or aria-labelledby to the checkbox',
+  },
+  {
+    id: 'checkbox-mixed-state',
+    description: 'A mixed "select all" checkbox must control partially checked checkboxes',
+    severity: 'error',
+    test: (pattern) => {
+      const { controlledCheckboxes } = pattern.relatedElements
+      if (pattern.metadata.checkedState !== 'mixed' || controlledCheckboxes.length === 0) {
+        return true
+      }
+
+      const checked = controlledCheckboxes.filter(checkbox => isChecked(checkbox))
+      return checked.length > 0 && checked.length < controlledCheckboxes.length
+    },
+    message: 'Checkbox is mixed but the checkboxes it controls are all checked or all unchecked',
+    suggestion: 'Set aria-checked="true" when all controlled checkboxes are checked and "false" when none are',
+  },
+]
+
+/**
+ * Validates checkbox patterns against APG rules
+ */
+export class CheckboxValidator {
+  /**
+   * Validate a checkbox pattern
+   */
+  validate(pattern: CheckboxPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of CHECKBOX_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
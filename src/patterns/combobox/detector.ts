@@ -0,0 +1,111 @@
+import type { ComboboxPattern } from './types'
+import { getReferencedElements } from '../../common/dom'
+import { getRole } from '../../common/aria'
+
+/**
+ * Roles a combobox popup may have
+ */
+const COMBOBOX_POPUP_ROLES = ['listbox', 'grid', 'tree', 'dialog']
+
+/**
+ * Detects combobox patterns in the document
+ */
+export class ComboboxDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all combobox patterns
+   */
+  detectAll(): ComboboxPattern[] {
+    const patterns: ComboboxPattern[] = []
+
+    // Level 1: Explicit ARIA roles
+    patterns.push(...this.detectExplicitComboboxes())
+
+    // Level 2: Native single-select <select> elements
+    patterns.push(...this.detectNativeComboboxes())
+
+    return patterns
+  }
+
+  /**
+   * Detect elements with role="combobox"
+   */
+  private detectExplicitComboboxes(): ComboboxPattern[] {
+    const elements = this.document.querySelectorAll('[role="combobox"]')
+
+    return Array.from(elements).map(element =>
+      this.createComboboxPattern(element, 'explicit-role')
+    )
+  }
+
+  /**
+   * Detect <select> elements that map to the combobox role
+   */
+  private detectNativeComboboxes(): ComboboxPattern[] {
+    const elements = this.document.querySelectorAll('select:not([role])')
+
+    return Array.from(elements)
+      .filter(element => getRole(element) === 'combobox')
+      .map(element => this.createComboboxPattern(element, 'native-element'))
+  }
+
+  /**
+   * Create a combobox pattern object
+   */
+  private createComboboxPattern(
+    element: Element,
+    detectionMethod: ComboboxPattern['detectionMethod']
+  ): ComboboxPattern {
+    const textbox = this.findWrappedTextbox(element)
+
+    // ARIA 1.0 comboboxes put aria-activedescendant on the inner textbox
+    const activeDescendant = [element, textbox]
+      .flatMap(el => (el ? getReferencedElements(el, 'aria-activedescendant') : []))[0]
+
+    return {
+      type: 'combobox',
+      confidence: 'high',
+      detectionMethod,
+      element,
+      relatedElements: {
+        popup: this.findPopup(element, textbox),
+        textbox,
+        activeDescendant: activeDescendant || null,
+      },
+      metadata: {
+        isNative: detectionMethod === 'native-element',
+        isDeprecatedPattern: textbox !== null,
+        expanded: element.getAttribute('aria-expanded'),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find the popup through aria-controls (ARIA 1.2) or aria-owns (ARIA 1.1)
+   */
+  private findPopup(combobox: Element, textbox: Element | null): Element | null {
+    const candidates = [
+      ...getReferencedElements(combobox, 'aria-controls'),
+      ...getReferencedElements(combobox, 'aria-owns'),
+      ...(textbox ? getReferencedElements(textbox, 'aria-controls') : []),
+    ]
+
+    return candidates.find(el => COMBOBOX_POPUP_ROLES.includes(getRole(el) || '')) || null
+  }
+
+  /**
+   * Find a textbox inside the combobox (ARIA 1.0 pattern)
+   */
+  private findWrappedTextbox(combobox: Element): Element | null {
+    const candidates = Array.from(
+      combobox.querySelectorAll('input, textarea, [role="textbox"], [role="searchbox"]')
+    )
+
+    return candidates.find(el => {
+      const role = getRole(el)
+      return role === 'textbox' || role === 'searchbox'
+    }) || null
+  }
+}
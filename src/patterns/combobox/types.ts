@@ -0,0 +1,42 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Combobox-specific pattern with related elements
+ */
+export interface ComboboxPattern extends Pattern {
+  type: 'combobox'
+  relatedElements: {
+    /** Popup (listbox, grid, tree or dialog) controlled by the combobox */
+    popup: Element | null
+    /** Textbox wrapped by an ARIA 1.0 style combobox */
+    textbox: Element | null
+    /** Element referenced by aria-activedescendant */
+    activeDescendant: Element | null
+  }
+  metadata: {
+    /** Whether this is a native <select> element */
+    isNative: boolean
+    /** Whether the combobox uses the deprecated ARIA 1.0 pattern */
+    isDeprecatedPattern: boolean
+    /** Value of aria-expanded (null when missing) */
+    expanded: string | null
+  }
+}
+
+/**
+ * Combobox validation rule
+ */
+export interface ComboboxRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: ComboboxPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,104 @@
+import type { ComboboxPattern, ComboboxRule } from './types'
+import type { Issue } from '../../core/types'
+import standards from '../../standards'
+
+/**
+ * APG Combobox Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/combobox/
+ */
+const COMBOBOX_RULES: ComboboxRule[] = [
+  {
+    id: 'combobox-deprecated-pattern',
+    description: 'Combobox should not wrap a textbox',
+    severity: 'warning',
+    test: (pattern) => !pattern.metadata.isDeprecatedPattern,
+    message: 'Combobox wraps a textbox, which is the deprecated ARIA 1.0 pattern',
+    suggestion: 'Put role="combobox" on the input itself and point aria-controls at the popup',
+  },
+  {
+    id: 'combobox-expanded',
+    description: 'Combobox must have a valid aria-expanded value',
+    severity: 'error',
+    test: (pattern) => {
+      if (pattern.metadata.isNative) return true
+
+      const { expanded } = pattern.metadata
+      return expanded !== null &&
+        standards.ariaAttrs['aria-expanded'].values.includes(expanded)
+    },
+    message: 'Combobox must have aria-expanded set to "true" or "false"',
+    suggestion: 'Add aria-expanded="false" and set it to "true" while the popup is shown',
+  },
+  {
+    id: 'combobox-popup',
+    description: 'Expanded combobox must control a popup',
+    severity: 'error',
+    test: (pattern) => {
+      if (pattern.metadata.isNative) return true
+      // A collapsed combobox may render its popup lazily
+      if (pattern.metadata.expanded === 'false') return true
+      return pattern.relatedElements.popup !== null
+    },
+    message: 'Combobox does not control a listbox, grid, tree or dialog popup',
+    suggestion: 'Add aria-controls pointing at the id of the popup element',
+  },
+  {
+    id: 'combobox-autocomplete-value',
+    description: 'aria-autocomplete must have a valid value',
+    severity: 'error',
+    test: (pattern) => {
+      const { values } = standards.ariaAttrs['aria-autocomplete']
+
+      return [pattern.element, pattern.relatedElements.textbox].every(el => {
+        const value = el?.getAttribute('aria-autocomplete')
+        return value == null || values.includes(value)
+      })
+    },
+    message: 'Combobox has an invalid aria-autocomplete value',
+    suggestion: 'Use aria-autocomplete="list", "inline", "both" or "none"',
+  },
+  {
+    id: 'combobox-active-descendant',
+    description: 'aria-activedescendant must reference an option inside the popup',
+    severity: 'error',
+    test: (pattern) => {
+      const { activeDescendant, popup, textbox } = pattern.relatedElements
+      const hasActiveDescendant = [pattern.element, textbox].some(
+        el => !!el?.getAttribute('aria-activedescendant')?.trim()
+      )
+
+      if (!hasActiveDescendant) return true
+      return !!activeDescendant && !!popup && popup.contains(activeDescendant)
+    },
+    message: 'aria-activedescendant does not reference an option inside the popup',
+    suggestion: 'Point aria-activedescendant at the id of the active option, or remove it when no option is active',
+  },
+]
+
+/**
+ * Validates combobox patterns against APG rules
+ */
+export class ComboboxValidator {
+  /**
+   * Validate a combobox pattern
+   */
+  validate(pattern: ComboboxPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of COMBOBOX_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
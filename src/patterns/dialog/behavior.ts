@@ -0,0 +1,304 @@
+import type { DialogPattern } from './types'
+import type { Issue } from '../../core/types'
+import { getExposedOutsideElements, getFocusableElements, isVisible } from '../../common/dom'
+import { isTabbable } from '../../common/aria'
+
+/**
+ * Options for interactive dialog testing
+ */
+export interface DialogBehaviorOptions {
+  /** How long to wait for the dialog to open or close, in milliseconds */
+  timeout?: number
+}
+
+/**
+ * Behavior check that produced an issue
+ */
+interface DialogBehaviorCheck {
+  id: string
+  severity: Issue['severity']
+  message: string
+  suggestion: string
+}
+
+/**
+ * APG Dialog keyboard contract
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/dialog-modal/#keyboardinteraction
+ */
+const DIALOG_BEHAVIOR_CHECKS: Record<string, DialogBehaviorCheck> = {
+  opens: {
+    id: 'dialog-behavior-opens',
+    severity: 'error',
+    message: 'Dialog did not open when its trigger was activated',
+    suggestion: 'Make sure the trigger shows the dialog on click',
+  },
+  focusIn: {
+    id: 'dialog-behavior-focus-in',
+    severity: 'error',
+    message: 'Focus did not move into the dialog when it opened',
+    suggestion: 'Focus the first focusable element (or the dialog itself) when the dialog opens',
+  },
+  escape: {
+    id: 'dialog-behavior-escape',
+    severity: 'error',
+    message: 'Dialog did not close when Escape was pressed',
+    suggestion: 'Close the dialog on Escape',
+  },
+  tabWrap: {
+    id: 'dialog-behavior-tab-wrap',
+    severity: 'error',
+    message: 'Tab from the last focusable element moves focus out of the modal dialog',
+    suggestion: 'Move focus to the first focusable element when Tab is pressed on the last one',
+  },
+  shiftTabWrap: {
+    id: 'dialog-behavior-shift-tab-wrap',
+    severity: 'error',
+    message: 'Shift+Tab from the first focusable element moves focus out of the modal dialog',
+    suggestion: 'Move focus to the last focusable element when Shift+Tab is pressed on the first one',
+  },
+  outsideInert: {
+    id: 'dialog-outside-inert',
+    severity: 'error',
+    message: 'Content outside the modal dialog can still be reached',
+    suggestion: 'Add inert (or aria-hidden="true") to the page content while the modal dialog is open',
+  },
+  returnFocus: {
+    id: 'dialog-behavior-return-focus',
+    severity: 'error',
+    message: 'Focus did not return to the trigger when the dialog closed',
+    suggestion: 'Store the trigger when opening and call trigger.focus() after closing',
+  },
+}
+
+/**
+ * Tests dialog keyboard behavior by interacting with the page
+ * Browser only: clicks triggers, moves focus and dispatches key events
+ */
+export class DialogBehaviorTester {
+  private timeout: number
+
+  constructor(private document: Document, options: DialogBehaviorOptions = {}) {
+    this.timeout = options.timeout ?? 1000
+  }
+
+  /**
+   * Open the dialog from each trigger, press Escape and check focus handling
+   * Modal dialogs are also checked for a focus trap while open
+   */
+  async test(pattern: DialogPattern): Promise<Issue[]> {
+    const issues: Issue[] = []
+    const dialog = pattern.element
+
+    // Open dialogs cannot be triggered; the static rules cover their inert check
+    if (this.isOpen(dialog)) {
+      return pattern.metadata.isModal ? this.testFocusTrap(pattern) : []
+    }
+
+    for (const trigger of pattern.relatedElements.triggers) {
+      if (this.isOpen(dialog)) break
+
+      this.activate(trigger as HTMLElement)
+
+      if (!(await this.waitFor(() => this.isOpen(dialog)))) {
+        issues.push(this.createIssue('opens', dialog))
+        continue
+      }
+
+      if (!(await this.waitFor(() => dialog.contains(this.document.activeElement)))) {
+        issues.push(this.createIssue('focusIn', dialog))
+      }
+
+      if (pattern.metadata.isModal) {
+        issues.push(...(await this.testFocusTrap(pattern)))
+
+        if (!this.isNativeModal(dialog) && getExposedOutsideElements(dialog).length > 0) {
+          issues.push(this.createIssue('outsideInert', dialog))
+        }
+      }
+
+      this.pressEscape(dialog)
+
+      if (!(await this.waitFor(() => !this.isOpen(dialog)))) {
+        issues.push(this.createIssue('escape', dialog))
+        this.forceClose(pattern)
+        continue
+      }
+
+      if (!(await this.waitFor(() => this.document.activeElement === trigger))) {
+        issues.push(this.createIssue('returnFocus', dialog))
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Focus and click a trigger without leaving the page
+   * Link navigation and form submission are prevented after the page's own click handlers ran
+   */
+  private activate(trigger: HTMLElement): void {
+    const preventNavigation = (event: Event) => {
+      if (this.navigates(trigger)) event.preventDefault()
+    }
+
+    trigger.addEventListener('click', preventNavigation)
+    trigger.focus()
+    trigger.click()
+    trigger.removeEventListener('click', preventNavigation)
+  }
+
+  /**
+   * Check if clicking a trigger would load another page
+   * In-page links (href="#...") are allowed, since they may open the dialog
+   */
+  private navigates(trigger: HTMLElement): boolean {
+    const link = trigger.closest('a[href]')
+    if (link) return !link.getAttribute('href')!.trim().startsWith('#')
+
+    const button = trigger as HTMLButtonElement
+    return button.type === 'submit' && !!button.form
+  }
+
+  /**
+   * Check that Tab from the last and Shift+Tab from the first element stay in the dialog
+   */
+  private async testFocusTrap(pattern: DialogPattern): Promise<Issue[]> {
+    const issues: Issue[] = []
+    const dialog = pattern.element
+    const focusable = pattern.relatedElements.focusableElements.filter(el => isTabbable(el))
+    if (focusable.length === 0) return issues
+
+    if (!(await this.tabStaysInside(dialog, focusable[focusable.length - 1], false))) {
+      issues.push(this.createIssue('tabWrap', dialog))
+    }
+
+    if (!(await this.tabStaysInside(dialog, focusable[0], true))) {
+      issues.push(this.createIssue('shiftTabWrap', dialog))
+    }
+
+    return issues
+  }
+
+  /**
+   * Press Tab (or Shift+Tab) on an element and check that focus stays in the dialog
+   */
+  private async tabStaysInside(dialog: Element, from: Element, shiftKey: boolean): Promise<boolean> {
+    (from as HTMLElement).focus()
+
+    const keydown = new KeyboardEvent('keydown', { key: 'Tab', shiftKey, bubbles: true, cancelable: true })
+    if (from.dispatchEvent(keydown)) {
+      // Nothing handled the key, so move focus the way the browser would
+      this.moveFocusSequentially(dialog, from, shiftKey)
+    }
+
+    // Focus traps may redirect focus from a focusin handler or a timer
+    return this.waitFor(() => dialog.contains(this.document.activeElement))
+  }
+
+  /**
+   * Emulate sequential focus navigation from an element
+   * Uses document order; inert content and the page outside a native modal are skipped.
+   * Past either end of the page focus moves to the browser UI, so the element is blurred
+   */
+  private moveFocusSequentially(dialog: Element, from: Element, shiftKey: boolean): void {
+    const scope = this.isNativeModal(dialog) ? dialog : this.document.body
+    const order = getFocusableElements(scope).filter(
+      el => isTabbable(el) && !el.closest('[inert], [hidden]')
+    )
+    const next = order[order.indexOf(from) + (shiftKey ? -1 : 1)] as HTMLElement | undefined
+
+    if (next) {
+      next.focus()
+    } else {
+      (from as HTMLElement).blur()
+    }
+  }
+
+  /**
+   * Check if a native dialog was opened with showModal()
+   * The browser makes the rest of the page inert for these
+   */
+  private isNativeModal(dialog: Element): boolean {
+    try {
+      return dialog.matches(':modal')
+    } catch {
+      // Environments without :modal support
+      return false
+    }
+  }
+
+  /**
+   * Check if a dialog is currently shown
+   */
+  private isOpen(dialog: Element): boolean {
+    if (dialog.tagName.toLowerCase() === 'dialog') {
+      return (dialog as HTMLDialogElement).open
+    }
+
+    if (dialog.closest('[hidden]') || !isVisible(dialog)) return false
+
+    const style = this.document.defaultView?.getComputedStyle(dialog)
+    return !style || (style.display !== 'none' && style.visibility !== 'hidden')
+  }
+
+  /**
+   * Dispatch an Escape key press on the focused element
+   * Native dialogs are closed the way the browser would, since synthetic events skip the UA
+   */
+  private pressEscape(dialog: Element): void {
+    const target = dialog.contains(this.document.activeElement)
+      ? this.document.activeElement!
+      : dialog
+
+    const keydown = new KeyboardEvent('keydown', { key: 'Escape', bubbles: true, cancelable: true })
+    const notPrevented = target.dispatchEvent(keydown)
+    target.dispatchEvent(new KeyboardEvent('keyup', { key: 'Escape', bubbles: true }))
+
+    if (notPrevented && dialog.tagName.toLowerCase() === 'dialog' && this.isOpen(dialog)) {
+      if (dialog.dispatchEvent(new Event('cancel', { cancelable: true }))) {
+        (dialog as HTMLDialogElement).close()
+      }
+    }
+  }
+
+  /**
+   * Close a dialog that ignored Escape so the next trigger can be tested
+   */
+  private forceClose(pattern: DialogPattern): void {
+    const closeButton = pattern.relatedElements.closeButtons[0] as HTMLElement | undefined
+    closeButton?.click()
+
+    if (pattern.element.tagName.toLowerCase() === 'dialog') {
+      (pattern.element as HTMLDialogElement).close()
+    }
+  }
+
+  /**
+   * Poll a condition until it holds or the timeout expires
+   */
+  private async waitFor(condition: () => boolean): Promise<boolean> {
+    const deadline = Date.now() + this.timeout
+
+    while (!condition()) {
+      if (Date.now() >= deadline) return false
+      await new Promise(resolve => setTimeout(resolve, 20))
+    }
+
+    return true
+  }
+
+  /**
+   * Create an issue for a failed behavior check
+   */
+  private createIssue(check: keyof typeof DIALOG_BEHAVIOR_CHECKS, dialog: Element): Issue {
+    const { id, severity, message, suggestion } = DIALOG_BEHAVIOR_CHECKS[check]
+
+    return {
+      severity,
+      message,
+      suggestion,
+      ruleId: id,
+      element: dialog,
+    }
+  }
+}
@@ -1,7 +1,27 @@
 import type { DialogPattern } from './types'
-import { getFocusableElements, findByAttribute } from '../../common/dom'
+import { getFocusableElements, findControllingElements } from '../../common/dom'
 import { getRole } from '../../common/aria'
 
+/**
+ * Class name tokens used by modal libraries (modal, c-modal, js-popup, ...)
+ */
+const DIALOG_CLASS = /(^|[-_])(modal|popup|lightbox)$/i
+
+/**
+ * Class names used by backdrops and overlays
+ */
+const BACKDROP_CLASS = /backdrop|overlay|mask/i
+
+/**
+ * z-index from which an element is considered to be stacked above the page
+ */
+const HIGH_Z_INDEX = 100
+
+/**
+ * Elements that are already dialogs
+ */
+const DIALOG_SELECTOR = '[role="dialog"], [role="alertdialog"], dialog'
+
 /**
  * Detects dialog patterns in the document
  */
@@ -20,8 +40,8 @@ export class DialogDetector {
     // Level 2: Native <dialog> elements
     patterns.push(...this.detectNativeDialogs())
 
-    // Level 3: Heuristic detection (future)
-    // patterns.push(...this.detectHeuristicDialogs())
+    // Level 3: Heuristic detection of role-less modals
+    patterns.push(...this.detectHeuristicDialogs())
 
     return patterns
   }
@@ -49,6 +69,91 @@ export class DialogDetector {
     )
   }
 
+  /**
+   * Detect elements without a role that look like modals
+   * Candidates have a modal class name or a backdrop sibling, and need at least two signals.
+   * A backdrop or a scroll-locked page is required, so fixed banners and popups are not reported
+   */
+  private detectHeuristicDialogs(): DialogPattern[] {
+    const candidates = new Set<Element>()
+
+    for (const element of Array.from(this.document.querySelectorAll('[class]'))) {
+      if (this.hasDialogClass(element)) {
+        candidates.add(element)
+      }
+
+      if (this.isBackdrop(element) && element.parentElement) {
+        Array.from(element.parentElement.children)
+          .filter(sibling => sibling !== element)
+          .forEach(sibling => candidates.add(sibling))
+      }
+    }
+
+    const patterns: DialogPattern[] = []
+    const isScrollLocked = this.isScrollLocked()
+
+    for (const element of candidates) {
+      // Elements with semantics (including real dialogs) are not role-less modals
+      if (getRole(element) !== null || this.isBackdrop(element)) continue
+      if (element.closest(DIALOG_SELECTOR) || element.querySelector(DIALOG_SELECTOR)) continue
+      if (!element.textContent?.trim() && getFocusableElements(element).length === 0) continue
+      if (!isScrollLocked && this.findBackdrop(element) === null) continue
+
+      const score = this.getHeuristicScore(element)
+      if (score < 2) continue
+
+      patterns.push(this.createDialogPattern(element, 'heuristic', score >= 3 ? 'medium' : 'low'))
+    }
+
+    // Report only the outermost element of nested candidates
+    return patterns.filter(
+      pattern => !patterns.some(other => other !== pattern && other.element.contains(pattern.element))
+    )
+  }
+
+  /**
+   * Count the modal signals of an element
+   */
+  private getHeuristicScore(element: Element): number {
+    const style = this.document.defaultView?.getComputedStyle(element) ?? (element as HTMLElement).style
+    const zIndex = parseInt(style.zIndex, 10)
+
+    return [
+      this.hasDialogClass(element),
+      this.findBackdrop(element) !== null,
+      style.position === 'fixed',
+      !isNaN(zIndex) && zIndex >= HIGH_Z_INDEX,
+    ].filter(Boolean).length
+  }
+
+  /**
+   * Check if the page scroll is locked, as modal libraries do while a modal is open
+   */
+  private isScrollLocked(): boolean {
+    const view = this.document.defaultView
+    const roots = [this.document.documentElement, this.document.body].filter(Boolean)
+
+    return roots.some(root => {
+      const style = view?.getComputedStyle(root) ?? (root as HTMLElement).style
+      return style.overflow === 'hidden' || style.overflowY === 'hidden'
+    })
+  }
+
+  /**
+   * Check if element has a modal class name
+   */
+  private hasDialogClass(element: Element): boolean {
+    const classes = element.getAttribute('class')?.split(/\s+/) || []
+    return classes.some(token => DIALOG_CLASS.test(token))
+  }
+
+  /**
+   * Check if element is a backdrop or overlay
+   */
+  private isBackdrop(element: Element): boolean {
+    return BACKDROP_CLASS.test(element.getAttribute('class') || '')
+  }
+
   /**
    * Create a dialog pattern object
    */
@@ -85,22 +190,7 @@ export class DialogDetector {
    * Find trigger buttons for dialog
    */
   private findTriggers(dialog: Element): Element[] {
-    if (!dialog.id) return []
-
-    const triggers: Element[] = []
-
-    // aria-controls
-    triggers.push(...findByAttribute(this.document, 'aria-controls', dialog.id))
-
-    // data-target (common pattern)
-    triggers.push(
-      ...Array.from(this.document.querySelectorAll(
-        `[data-target="#${dialog.id}"], [data-target="${dialog.id}"]`
-      ))
-    )
-
-    // Deduplicate
-    return Array.from(new Set(triggers))
+    return findControllingElements(this.document, dialog)
   }
 
   /**
@@ -143,12 +233,7 @@ export class DialogDetector {
     for (const sibling of Array.from(parent.children)) {
       if (sibling === dialog) continue
 
-      const className = sibling.className.toLowerCase()
-      if (
-        className.includes('backdrop') ||
-        className.includes('overlay') ||
-        className.includes('mask')
-      ) {
+      if (this.isBackdrop(sibling)) {
         return sibling
       }
     }
@@ -1,13 +1,50 @@
 import type { DialogPattern, DialogRule } from './types'
 import type { Issue } from '../../core/types'
-import { hasAccessibleName } from '../../common/aria'
-import { isExplicitlyHidden } from '../../common/dom'
+import { getRole, hasAccessibleName } from '../../common/aria'
+import { getExposedOutsideElements, isExplicitlyHidden, isHiddenByStyle } from '../../common/dom'
+
+/**
+ * Class tokens that mark a dialog as closed (e.g. "is-closed")
+ */
+const CLOSED_CLASS = /(^|[-_])(closed|collapsed|inactive)$/i
+
+/**
+ * Check if a dialog is open without interacting with the page
+ * Native modal dialogs are skipped since the browser makes the page inert;
+ * without a window to compute styles, stylesheets may hide the dialog, so it is not open
+ */
+function isReliablyOpen(element: Element): boolean {
+  if (element.tagName.toLowerCase() === 'dialog') {
+    try {
+      if (element.matches(':modal')) return false
+    } catch {
+      // Environments without :modal support
+    }
+    return element.hasAttribute('open')
+  }
+
+  if (!element.ownerDocument.defaultView || isExplicitlyHidden(element)) return false
+  if (Array.from(element.classList).some(token => CLOSED_CLASS.test(token))) return false
+
+  return !isHiddenByStyle(element)
+}
 
 /**
  * APG Dialog Pattern Rules
  * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/dialog-modal/
  */
 const DIALOG_RULES: DialogRule[] = [
+  {
+    id: 'dialog-role',
+    description: 'Dialog must have role="dialog" or use the <dialog> element',
+    severity: 'error',
+    test: (pattern) => {
+      const role = getRole(pattern.element)
+      return role === 'dialog' || role === 'alertdialog'
+    },
+    message: 'Element looks like a dialog but has no dialog role',
+    suggestion: 'Add role="dialog" (or role="alertdialog") or use a native <dialog> element',
+  },
   {
     id: 'dialog-accessible-name',
     description: 'Dialog must have an accessible name',
@@ -64,6 +101,21 @@ const DIALOG_RULES: DialogRule[] = [
     message: 'Close button must have an accessible name',
     suggestion: 'Add aria-label="Close" or visible text to close button',
   },
+  {
+    id: 'dialog-outside-inert',
+    description: 'Content outside an open modal dialog must be inert or aria-hidden',
+    severity: 'error',
+    test: (pattern) => {
+      const { element } = pattern
+
+      // Closed dialogs are checked when opened in interactive mode
+      if (!pattern.metadata.isModal || !isReliablyOpen(element)) return true
+
+      return getExposedOutsideElements(element).length === 0
+    },
+    message: 'Content outside the modal dialog can still be reached',
+    suggestion: 'Add inert (or aria-hidden="true") to the page content while the modal dialog is open',
+  },
 ]
 
 /**
@@ -72,16 +124,18 @@ const DIALOG_RULES: DialogRule[] = [
 export class DialogValidator {
   /**
    * Validate a dialog pattern
+   * Issues on heuristic matches are capped at warning, since the element may not be a dialog
    */
   validate(pattern: DialogPattern): Issue[] {
     const issues: Issue[] = []
+    const isHeuristic = pattern.detectionMethod === 'heuristic'
 
     for (const rule of DIALOG_RULES) {
       const passed = rule.test(pattern)
       
       if (!passed) {
         issues.push({
-          severity: rule.severity,
+          severity: isHeuristic && rule.severity === 'error' ? 'warning' : rule.severity,
           message: rule.message,
           suggestion: rule.suggestion,
           ruleId: rule.id,
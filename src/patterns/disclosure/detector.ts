@@ -0,0 +1,109 @@
+import type { DisclosurePattern } from './types'
+import { findByAttribute, getReferencedElements } from '../../common/dom'
+import { getRole } from '../../common/aria'
+
+/**
+ * Detects disclosure (show/hide) patterns in the document
+ */
+export class DisclosureDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all disclosure patterns
+   */
+  detectAll(): DisclosurePattern[] {
+    const patterns: DisclosurePattern[] = []
+
+    // Level 1: Controllers with aria-expanded and aria-controls
+    patterns.push(...this.detectExplicitDisclosures())
+
+    // Level 2: Native <details> elements
+    patterns.push(...this.detectNativeDisclosures())
+
+    return patterns
+  }
+
+  /**
+   * Detect buttons (or button-like elements) that toggle one element
+   */
+  private detectExplicitDisclosures(): DisclosurePattern[] {
+    const candidates = [
+      ...findByAttribute(this.document, 'aria-expanded', 'true'),
+      ...findByAttribute(this.document, 'aria-expanded', 'false'),
+    ]
+
+    return candidates
+      .filter(element => element.hasAttribute('aria-controls'))
+      .filter(element => this.isDisclosureController(element))
+      .map(controller =>
+        this.createDisclosurePattern(
+          controller,
+          controller,
+          getReferencedElements(controller, 'aria-controls')[0] || null,
+          'explicit-role'
+        )
+      )
+  }
+
+  /**
+   * Detect native <details> elements
+   */
+  private detectNativeDisclosures(): DisclosurePattern[] {
+    const elements = this.document.querySelectorAll('details')
+
+    return Array.from(elements).map(details => {
+      const summary = Array.from(details.children).find(
+        child => child.tagName.toLowerCase() === 'summary'
+      )
+
+      return this.createDisclosurePattern(details, summary || null, details, 'native-element')
+    })
+  }
+
+  /**
+   * Create a disclosure pattern object
+   */
+  private createDisclosurePattern(
+    element: Element,
+    controller: Element | null,
+    target: Element | null,
+    detectionMethod: DisclosurePattern['detectionMethod']
+  ): DisclosurePattern {
+    const isNative = detectionMethod === 'native-element'
+
+    return {
+      type: 'disclosure',
+      confidence: 'high',
+      detectionMethod,
+      element,
+      relatedElements: {
+        controller,
+        target,
+      },
+      metadata: {
+        isNative,
+        expanded: isNative
+          ? String(element.hasAttribute('open'))
+          : element.getAttribute('aria-expanded'),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Check if an element with aria-expanded acts as a plain disclosure button
+   * Other patterns (accordion, menu button, combobox, ...) use aria-expanded too
+   */
+  private isDisclosureController(element: Element): boolean {
+    // Accordion headers
+    if (element.closest('h1, h2, h3, h4, h5, h6, [role="heading"]')) return false
+
+    // Menu buttons and other popup triggers
+    const popup = element.getAttribute('aria-haspopup')
+    if (popup && popup !== 'false') return false
+
+    // Only buttons, or generic elements pretending to be one
+    const role = getRole(element)
+    return role === 'button' || role === null
+  }
+}
@@ -0,0 +1,38 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Disclosure-specific pattern with related elements
+ */
+export interface DisclosurePattern extends Pattern {
+  type: 'disclosure'
+  relatedElements: {
+    /** Element that toggles the content (the <summary> for native disclosures) */
+    controller: Element | null
+    /** Content shown and hidden by the controller */
+    target: Element | null
+  }
+  metadata: {
+    /** Whether this is a native <details> element */
+    isNative: boolean
+    /** Value of aria-expanded on the controller (null when missing) */
+    expanded: string | null
+  }
+}
+
+/**
+ * Disclosure validation rule
+ */
+export interface DisclosureRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: DisclosurePattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,94 @@
+import type { DisclosurePattern, DisclosureRule } from './types'
+import type { Issue } from '../../core/types'
+import { getRole, isFocusable } from '../../common/aria'
+import { isHiddenByStyle, isVisible } from '../../common/dom'
+
+/**
+ * ARIA attributes that duplicate the native semantics of <details>/<summary>
+ */
+const REDUNDANT_NATIVE_ATTRIBUTES = ['role', 'aria-expanded', 'aria-controls', 'aria-pressed']
+
+/**
+ * APG Disclosure Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/disclosure/
+ */
+const DISCLOSURE_RULES: DisclosureRule[] = [
+  {
+    id: 'disclosure-controls',
+    description: 'Disclosure button must control an existing element',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.target !== null,
+    message: 'Disclosure button aria-controls does not reference an existing element',
+    suggestion: 'Point aria-controls at the id of the element that is shown and hidden',
+  },
+  {
+    id: 'disclosure-expanded-state',
+    description: 'aria-expanded must match the target visibility',
+    severity: 'error',
+    test: (pattern) => {
+      const { target } = pattern.relatedElements
+      if (pattern.metadata.isNative || !target) return true
+
+      const isShown = isVisible(target) && !isHiddenByStyle(target)
+      return (pattern.metadata.expanded === 'true') === isShown
+    },
+    message: 'Disclosure button aria-expanded does not match whether its content is visible',
+    suggestion: 'Set aria-expanded="true" when the content is shown and "false" when it is hidden',
+  },
+  {
+    id: 'disclosure-controller-semantics',
+    description: 'Disclosure controller must be a focusable button',
+    severity: 'warning',
+    test: (pattern) => {
+      const { controller } = pattern.relatedElements
+      if (pattern.metadata.isNative || !controller) return true
+
+      return getRole(controller) === 'button' && isFocusable(controller)
+    },
+    message: 'Disclosure controller is not a focusable button',
+    suggestion: 'Use a <button> element, or add role="button" and tabindex="0" to the controller',
+  },
+  {
+    id: 'disclosure-native-redundant-aria',
+    description: 'Native disclosures should not repeat their semantics with ARIA',
+    severity: 'warning',
+    test: (pattern) => {
+      if (!pattern.metadata.isNative) return true
+
+      const { element, relatedElements } = pattern
+      return [element, relatedElements.controller].every(el =>
+        !el || REDUNDANT_NATIVE_ATTRIBUTES.every(attr => !el.hasAttribute(attr))
+      )
+    },
+    message: '<details> or <summary> carries ARIA that duplicates its native semantics',
+    suggestion: 'Remove role, aria-expanded and aria-controls from <details> and <summary>',
+  },
+]
+
+/**
+ * Validates disclosure patterns against APG rules
+ */
+export class DisclosureValidator {
+  /**
+   * Validate a disclosure pattern
+   */
+  validate(pattern: DisclosurePattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of DISCLOSURE_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,68 @@
+import type { FeedPattern } from './types'
+import { getOwnedElements, getRole } from '../../common/aria'
+
+/**
+ * Class names used by loading indicators
+ */
+const LOADING_CLASS = /\b(loading|loader|spinner)\b/i
+
+/**
+ * Detects feed patterns in the document
+ */
+export class FeedDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all feed patterns
+   */
+  detectAll(): FeedPattern[] {
+    // Level 1: Explicit role="feed"
+    const elements = this.document.querySelectorAll('[role="feed"]')
+
+    return Array.from(elements).map(feed => this.createFeedPattern(feed))
+  }
+
+  /**
+   * Create a feed pattern object
+   */
+  private createFeedPattern(feed: Element): FeedPattern {
+    return {
+      type: 'feed',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element: feed,
+      relatedElements: {
+        articles: getOwnedElements(feed).filter(el => getRole(el) === 'article'),
+        loadingIndicator: this.findLoadingIndicator(feed),
+      },
+      metadata: {
+        isBusy: feed.getAttribute('aria-busy') === 'true',
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find a displayed loading indicator inside or right after the feed
+   */
+  private findLoadingIndicator(feed: Element): Element | null {
+    const candidates = [
+      ...Array.from(feed.querySelectorAll('*')),
+      ...(feed.nextElementSibling ? [feed.nextElementSibling] : []),
+    ]
+
+    return candidates.find(el =>
+      (getRole(el) === 'progressbar' || LOADING_CLASS.test(el.getAttribute('class') || '')) &&
+      this.isDisplayed(el)
+    ) || null
+  }
+
+  /**
+   * Check if an element is rendered
+   * Spinners are usually aria-hidden, so isVisible cannot be used here
+   */
+  private isDisplayed(element: Element): boolean {
+    return !element.closest('[hidden]') &&
+      (element as HTMLElement).style.display !== 'none'
+  }
+}
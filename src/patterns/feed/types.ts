@@ -0,0 +1,36 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Feed-specific pattern with related elements
+ */
+export interface FeedPattern extends Pattern {
+  type: 'feed'
+  relatedElements: {
+    /** Articles owned by the feed */
+    articles: Element[]
+    /** Loading indicator inside or right after the feed (null if none) */
+    loadingIndicator: Element | null
+  }
+  metadata: {
+    /** Whether the feed has aria-busy="true" */
+    isBusy: boolean
+  }
+}
+
+/**
+ * Feed validation rule
+ */
+export interface FeedRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: FeedPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,107 @@
+import type { FeedPattern, FeedRule } from './types'
+import type { Issue } from '../../core/types'
+import { hasAccessibleName, isFocusable, isValidAttributeValue } from '../../common/aria'
+
+/**
+ * Check if an article has valid aria-setsize and aria-posinset values
+ */
+function hasValidPosition(article: Element): boolean {
+  return ['aria-setsize', 'aria-posinset'].every(attr =>
+    article.hasAttribute(attr) && isValidAttributeValue(article, attr)
+  )
+}
+
+/**
+ * APG Feed Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/feed/
+ */
+const FEED_RULES: FeedRule[] = [
+  {
+    id: 'feed-has-articles',
+    description: 'Feed must contain articles',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.articles.length > 0,
+    message: 'Feed contains no articles',
+    suggestion: 'Use <article> or role="article" for each item in the feed',
+  },
+  {
+    id: 'feed-article-focusable',
+    description: 'Each article must be focusable',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.articles.every(article => isFocusable(article)),
+    message: 'Feed article cannot receive focus',
+    suggestion: 'Add tabindex="0" or tabindex="-1" to each article',
+  },
+  {
+    id: 'feed-article-name',
+    description: 'Each article must have an accessible name',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.articles.every(article => hasAccessibleName(article)),
+    message: 'Feed article has no accessible name',
+    suggestion: 'Point aria-labelledby at the article title',
+  },
+  {
+    id: 'feed-position-required',
+    description: 'Each article must have valid aria-setsize and aria-posinset',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.articles.every(article => hasValidPosition(article)),
+    message: 'Feed article is missing aria-setsize or aria-posinset, or has an invalid value',
+    suggestion: 'Set aria-posinset to the 1-based position and aria-setsize to the total (or -1 if unknown)',
+  },
+  {
+    id: 'feed-setsize-posinset',
+    description: 'aria-setsize and aria-posinset must be consistent across articles',
+    severity: 'error',
+    test: (pattern) => {
+      // Missing or invalid values are reported by feed-position-required
+      const articles = pattern.relatedElements.articles.filter(article => hasValidPosition(article))
+      if (articles.length === 0) return true
+
+      const setsizes = articles.map(article => parseInt(article.getAttribute('aria-setsize') || '', 10))
+      const positions = articles.map(article => parseInt(article.getAttribute('aria-posinset') || '', 10))
+
+      // Articles may be unloaded, so positions only need to increase
+      return setsizes.every(setsize => setsize === setsizes[0]) &&
+        positions.every((position, index) => index === 0 || position > positions[index - 1]) &&
+        (setsizes[0] === -1 || positions.every(position => position <= setsizes[0]))
+    },
+    message: 'Feed articles have inconsistent aria-setsize or aria-posinset values',
+    suggestion: 'Use the same aria-setsize on every article and increasing aria-posinset values within it',
+  },
+  {
+    id: 'feed-busy',
+    description: 'Feed must set aria-busy while it loads articles',
+    severity: 'error',
+    test: (pattern) => !pattern.relatedElements.loadingIndicator || pattern.metadata.isBusy,
+    message: 'Feed is loading but does not have aria-busy="true"',
+    suggestion: 'Set aria-busy="true" on the feed while articles load and remove it when done',
+  },
+]
+
+/**
+ * Validates feed patterns against APG rules
+ */
+export class FeedValidator {
+  /**
+   * Validate a feed pattern
+   */
+  validate(pattern: FeedPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of FEED_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
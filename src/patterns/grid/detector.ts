@@ -0,0 +1,67 @@
+import type { GridPattern } from './types'
+import { getOwnedElements, getRole, getRoleDefinition } from '../../common/aria'
+
+/**
+ * Detects grid and treegrid patterns in the document
+ */
+export class GridDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all grid patterns
+   */
+  detectAll(): GridPattern[] {
+    const elements = this.document.querySelectorAll('[role="grid"], [role="treegrid"]')
+
+    return Array.from(elements).map(element => this.createGridPattern(element))
+  }
+
+  /**
+   * Create a grid pattern object
+   */
+  private createGridPattern(grid: Element): GridPattern {
+    const invalidChildren: Element[] = []
+
+    // Walk the ownership chain, collecting owned elements with the allowed roles
+    const collect = (parent: Element, roles: string[]): Element[] => {
+      const allowed = getRoleDefinition(getRole(parent) || '')?.requiredOwned || []
+      const owned = getOwnedElements(parent)
+
+      invalidChildren.push(...owned.filter(el => !allowed.includes(getRole(el) || '')))
+      return owned.filter(el => roles.includes(getRole(el) || ''))
+    }
+
+    const rowgroups: Element[] = []
+    const rows: Element[] = []
+
+    for (const child of collect(grid, ['rowgroup', 'row'])) {
+      if (getRole(child) === 'rowgroup') {
+        rowgroups.push(child)
+        rows.push(...collect(child, ['row']))
+      } else {
+        rows.push(child)
+      }
+    }
+
+    const cells = rows.flatMap(row =>
+      collect(row, ['cell', 'columnheader', 'gridcell', 'rowheader'])
+    )
+
+    return {
+      type: 'grid',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element: grid,
+      relatedElements: {
+        rows,
+        rowgroups,
+        cells,
+        invalidChildren,
+      },
+      metadata: {
+        isTreegrid: getRole(grid) === 'treegrid',
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
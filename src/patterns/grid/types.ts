@@ -0,0 +1,41 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Grid-specific pattern with related elements
+ * Covers both grid and treegrid
+ */
+export interface GridPattern extends Pattern {
+  type: 'grid'
+  relatedElements: {
+    /** Rows owned by the grid, directly or through rowgroups */
+    rows: Element[]
+    /** Rowgroups owned by the grid */
+    rowgroups: Element[]
+    /** Cells, column headers and row headers owned by the rows */
+    cells: Element[]
+    /** Elements that break the grid > rowgroup > row > cell ownership chain */
+    invalidChildren: Element[]
+  }
+  metadata: {
+    /** Whether this is a treegrid */
+    isTreegrid: boolean
+  }
+}
+
+/**
+ * Grid validation rule
+ */
+export interface GridRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: GridPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,144 @@
+import type { GridPattern, GridRule } from './types'
+import type { Issue } from '../../core/types'
+import { isTabbable, isValidAttributeValue } from '../../common/aria'
+import { getFocusableElements } from '../../common/dom'
+
+/**
+ * Read a valid integer attribute (null when missing or malformed)
+ */
+function getIntAttribute(element: Element, attribute: string): number | null {
+  const value = element.getAttribute(attribute)
+  if (value === null || !/^-?\d+$/.test(value.trim())) return null
+
+  return parseInt(value, 10)
+}
+
+/**
+ * Check that every size or index fits within a count (-1 means unknown)
+ */
+function fitsWithinCount(count: number | null, values: (number | null)[]): boolean {
+  if (count === null || count === -1) return true
+  return values.every(value => value === null || value <= count)
+}
+
+/**
+ * APG Grid and Treegrid Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/grid/
+ */
+const GRID_RULES: GridRule[] = [
+  {
+    id: 'grid-has-rows',
+    description: 'Grid must contain rows',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.rows.length > 0,
+    message: 'Grid contains no elements with role="row"',
+    suggestion: 'Add role="row" to each row of the grid',
+  },
+  {
+    id: 'grid-ownership',
+    description: 'Grid must follow the grid > rowgroup > row > cell ownership chain',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.invalidChildren.length === 0,
+    message: 'Grid contains elements outside the row and cell ownership chain',
+    suggestion: 'Only place rows (optionally inside rowgroups) in the grid and gridcell, columnheader or rowheader elements in rows',
+  },
+  {
+    id: 'grid-count-values',
+    description: 'Row and column counts and indexes must be valid integers',
+    severity: 'error',
+    test: (pattern) => {
+      const { element, relatedElements } = pattern
+
+      return (
+        ['aria-rowcount', 'aria-colcount'].every(attr =>
+          isValidAttributeValue(element, attr)
+        ) &&
+        [...relatedElements.rows, ...relatedElements.cells].every(el =>
+          isValidAttributeValue(el, 'aria-rowindex') &&
+          isValidAttributeValue(el, 'aria-colindex')
+        )
+      )
+    },
+    message: 'Grid has an invalid aria-rowcount, aria-colcount, aria-rowindex or aria-colindex value',
+    suggestion: 'Use -1 or a positive integer for counts, and integers starting at 1 for indexes',
+  },
+  {
+    id: 'grid-index-range',
+    description: 'Row and column indexes must not exceed the declared counts',
+    severity: 'error',
+    test: (pattern) => {
+      const { element, relatedElements: { rows, cells } } = pattern
+      const rowIndexes = [...rows, ...cells].map(el => getIntAttribute(el, 'aria-rowindex'))
+      const colIndexes = cells.map(el => getIntAttribute(el, 'aria-colindex'))
+      const widestRow = Math.max(0, ...rows.map(row =>
+        cells.filter(cell => row.contains(cell)).length
+      ))
+
+      return (
+        fitsWithinCount(getIntAttribute(element, 'aria-rowcount'), [rows.length, ...rowIndexes]) &&
+        fitsWithinCount(getIntAttribute(element, 'aria-colcount'), [widestRow, ...colIndexes])
+      )
+    },
+    message: 'Grid rows or columns do not fit within aria-rowcount or aria-colcount',
+    suggestion: 'Set aria-rowcount and aria-colcount to the full size of the data set, or -1 if unknown',
+  },
+  {
+    id: 'grid-rowindex-order',
+    description: 'aria-rowindex must increase from row to row',
+    severity: 'error',
+    test: (pattern) => {
+      const indexes = pattern.relatedElements.rows
+        .map(row => getIntAttribute(row, 'aria-rowindex'))
+        .filter((index): index is number => index !== null)
+
+      return indexes.every((index, i) => i === 0 || index > indexes[i - 1])
+    },
+    message: 'Grid rows have duplicate or out-of-order aria-rowindex values',
+    suggestion: 'Give each rendered row its 1-based position in the full data set',
+  },
+  {
+    id: 'grid-single-tab-stop',
+    description: 'Only one element in the grid should be in the tab sequence',
+    severity: 'error',
+    test: (pattern) => {
+      const { element } = pattern
+
+      // Focus may stay on the grid itself with aria-activedescendant
+      if (element.hasAttribute('aria-activedescendant') && isTabbable(element)) {
+        return true
+      }
+
+      return getFocusableElements(element).filter(el => isTabbable(el)).length === 1
+    },
+    message: 'Grid must have exactly one cell or widget in the tab sequence',
+    suggestion: 'Give the focused cell tabindex="0" and every other cell and widget tabindex="-1"',
+  },
+]
+
+/**
+ * Validates grid patterns against APG rules
+ */
+export class GridValidator {
+  /**
+   * Validate a grid pattern
+   */
+  validate(pattern: GridPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of GRID_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
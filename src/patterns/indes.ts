@@ -5,9 +5,98 @@
 
 export { DialogDetector } from './dialog/detector'
 export { DialogValidator } from './dialog/validator'
+export { DialogBehaviorTester } from './dialog/behavior'
+export type { DialogBehaviorOptions } from './dialog/behavior'
 export type { DialogPattern, DialogRule } from './dialog/types'
 
-// Future patterns:
-// export { ComboboxDetector } from './combobox/detector'
-// export { TabsDetector } from './tabs/detector'
-// export { MenuDetector } from './menu/detector'
\ No newline at end of file
+export { TabsDetector } from './tabs/detector'
+export { TabsValidator } from './tabs/validator'
+export type { TabsPattern, TabsRule } from './tabs/types'
+
+export { MenuDetector } from './menu/detector'
+export { MenuValidator } from './menu/validator'
+export type { MenuPattern, MenuRule } from './menu/types'
+
+export { MenuButtonDetector } from './menu-button/detector'
+export { MenuButtonValidator } from './menu-button/validator'
+export type { MenuButtonPattern, MenuButtonRule } from './menu-button/types'
+
+export { ComboboxDetector } from './combobox/detector'
+export { ComboboxValidator } from './combobox/validator'
+export type { ComboboxPattern, ComboboxRule } from './combobox/types'
+
+export { ListboxDetector } from './listbox/detector'
+export { ListboxValidator } from './listbox/validator'
+export type { ListboxPattern, ListboxRule } from './listbox/types'
+
+export { AccordionDetector } from './accordion/detector'
+export { AccordionValidator } from './accordion/validator'
+export type { AccordionPattern, AccordionRule } from './accordion/types'
+
+export { DisclosureDetector } from './disclosure/detector'
+export { DisclosureValidator } from './disclosure/validator'
+export type { DisclosurePattern, DisclosureRule } from './disclosure/types'
+
+export { TooltipDetector } from './tooltip/detector'
+export { TooltipValidator } from './tooltip/validator'
+export type { TooltipPattern, TooltipRule } from './tooltip/types'
+
+export { TreeDetector } from './tree/detector'
+export { TreeValidator } from './tree/validator'
+export type { TreePattern, TreeRule, TreeItemPosition } from './tree/types'
+
+export { GridDetector } from './grid/detector'
+export { GridValidator } from './grid/validator'
+export type { GridPattern, GridRule } from './grid/types'
+
+export { RadioGroupDetector } from './radiogroup/detector'
+export { RadioGroupValidator } from './radiogroup/validator'
+export type { RadioGroupPattern, RadioGroupRule } from './radiogroup/types'
+
+export { CheckboxDetector } from './checkbox/detector'
+export { CheckboxValidator } from './checkbox/validator'
+export type { CheckboxPattern, CheckboxRule } from './checkbox/types'
+
+export { SwitchDetector } from './switch/detector'
+export { SwitchValidator } from './switch/validator'
+export type { SwitchPattern, SwitchRule } from './switch/types'
+
+export { SliderDetector } from './slider/detector'
+export { SliderValidator } from './slider/validator'
+export type { SliderPattern, SliderRule } from './slider/types'
+
+export { SpinbuttonDetector } from './spinbutton/detector'
+export { SpinbuttonValidator } from './spinbutton/validator'
+export type { SpinbuttonPattern, SpinbuttonRule } from './spinbutton/types'
+
+export { ToolbarDetector } from './toolbar/detector'
+export { ToolbarValidator } from './toolbar/validator'
+export type { ToolbarPattern, ToolbarRule } from './toolbar/types'
+
+export { CarouselDetector } from './carousel/detector'
+export { CarouselValidator } from './carousel/validator'
+export type { CarouselPattern, CarouselRule } from './carousel/types'
+
+export { FeedDetector } from './feed/detector'
+export { FeedValidator } from './feed/validator'
+export type { FeedPattern, FeedRule } from './feed/types'
+
+export { BreadcrumbDetector } from './breadcrumb/detector'
+export { BreadcrumbValidator } from './breadcrumb/validator'
+export type { BreadcrumbPattern, BreadcrumbRule } from './breadcrumb/types'
+
+export { LandmarksDetector } from './landmarks/detector'
+export { LandmarksValidator } from './landmarks/validator'
+export type { LandmarksPattern, LandmarksRule, LandmarkRole } from './landmarks/types'
+
+export { LiveRegionDetector } from './live-region/detector'
+export { LiveRegionValidator } from './live-region/validator'
+export type { LiveRegionPattern, LiveRegionRule } from './live-region/types'
+
+export { WindowSplitterDetector } from './window-splitter/detector'
+export { WindowSplitterValidator } from './window-splitter/validator'
+export type { WindowSplitterPattern, WindowSplitterRule } from './window-splitter/types'
+
+export { MeterDetector } from './meter/detector'
+export { MeterValidator } from './meter/validator'
+export type { MeterPattern, MeterRule } from './meter/types'
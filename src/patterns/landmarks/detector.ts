@@ -0,0 +1,126 @@
+import type { LandmarkRole, LandmarksPattern } from './types'
+import { getRole } from '../../common/aria'
+
+/**
+ * Landmark roles that structure the page
+ */
+const LANDMARK_ROLES: LandmarkRole[] = ['banner', 'main', 'contentinfo', 'navigation', 'complementary']
+
+/**
+ * Elements that can be landmarks, explicitly or implicitly
+ */
+const LANDMARK_CANDIDATE_SELECTOR = 'header, footer, main, nav, aside, [role]'
+
+/**
+ * Roles whose content may live outside landmarks
+ */
+const CONTAINER_ROLES = ['region', 'search', 'form', 'dialog', 'alertdialog']
+
+/**
+ * Elements that never render page content
+ */
+const NON_CONTENT_TAGS = ['script', 'style', 'template', 'noscript', 'link', 'meta']
+
+/**
+ * Detects the landmark structure of the page
+ */
+export class LandmarksDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect the landmarks pattern
+   * Pages without landmarks are reported when they have content, all of it uncontained
+   */
+  detectAll(): LandmarksPattern[] {
+    const body = this.document.body
+    if (!body) return []
+
+    const landmarks = Array.from(body.querySelectorAll(LANDMARK_CANDIDATE_SELECTOR)).filter(
+      el => this.getLandmarkRole(el) !== null && !el.closest('[hidden]')
+    )
+    const uncontainedContent = this.findUncontainedContent(body)
+    if (landmarks.length === 0 && uncontainedContent.length === 0) return []
+
+    return [
+      {
+        type: 'landmarks',
+        confidence: 'high',
+        detectionMethod: 'native-element',
+        element: body,
+        relatedElements: {
+          landmarks,
+          uncontainedContent,
+        },
+        metadata: {
+          roles: landmarks.map(el => this.getLandmarkRole(el) as LandmarkRole),
+        },
+        issues: [], // Populated by validator
+      },
+    ]
+  }
+
+  /**
+   * Get the landmark role of an element (null if not a landmark)
+   */
+  private getLandmarkRole(element: Element): LandmarkRole | null {
+    const role = getRole(element)
+    return LANDMARK_ROLES.includes(role as LandmarkRole) ? (role as LandmarkRole) : null
+  }
+
+  /**
+   * Find top-level content that is not inside a landmark
+   * Wrappers that contain landmarks are searched recursively
+   */
+  private findUncontainedContent(container: Element): Element[] {
+    const uncontained: Element[] = []
+
+    for (const child of Array.from(container.children)) {
+      if (this.isExempt(child)) continue
+
+      if (child.querySelector('*') && this.containsLandmark(child)) {
+        uncontained.push(...this.findUncontainedContent(child))
+      } else if (this.hasContent(child)) {
+        uncontained.push(child)
+      }
+    }
+
+    return uncontained
+  }
+
+  /**
+   * Check if an element may live outside landmarks
+   */
+  private isExempt(element: Element): boolean {
+    if (NON_CONTENT_TAGS.includes(element.tagName.toLowerCase())) return true
+    if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') return true
+
+    const role = getRole(element)
+    if (this.getLandmarkRole(element) || CONTAINER_ROLES.includes(role || '')) return true
+
+    // Skip links point into the page before the landmarks start
+    return element.tagName.toLowerCase() === 'a' && !!element.getAttribute('href')?.startsWith('#')
+  }
+
+  /**
+   * Check if an element contains a landmark
+   */
+  private containsLandmark(element: Element): boolean {
+    return Array.from(element.querySelectorAll(LANDMARK_CANDIDATE_SELECTOR)).some(
+      el => this.getLandmarkRole(el) !== null
+    )
+  }
+
+  /**
+   * Check if an element renders text or media outside exempt descendants
+   */
+  private hasContent(element: Element): boolean {
+    if (element.matches('img, svg, video, canvas, iframe')) return true
+
+    return Array.from(element.childNodes).some(node => {
+      if (node.nodeType === node.TEXT_NODE) return !!node.textContent?.trim()
+      return node.nodeType === node.ELEMENT_NODE &&
+        !this.isExempt(node as Element) &&
+        this.hasContent(node as Element)
+    })
+  }
+}
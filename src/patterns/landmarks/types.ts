@@ -0,0 +1,41 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Landmark roles checked by the landmarks pattern
+ */
+export type LandmarkRole = 'banner' | 'main' | 'contentinfo' | 'navigation' | 'complementary'
+
+/**
+ * Page-level landmark structure
+ */
+export interface LandmarksPattern extends Pattern {
+  type: 'landmarks'
+  relatedElements: {
+    /** Landmark elements in document order */
+    landmarks: Element[]
+    /** Top-level elements with content that are not inside a landmark */
+    uncontainedContent: Element[]
+  }
+  metadata: {
+    /** Roles of the landmarks, aligned with relatedElements.landmarks */
+    roles: LandmarkRole[]
+  }
+}
+
+/**
+ * Landmarks validation rule
+ */
+export interface LandmarksRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: LandmarksPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
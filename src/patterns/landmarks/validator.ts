@@ -0,0 +1,74 @@
+import type { LandmarksPattern, LandmarksRule } from './types'
+import type { Issue } from '../../core/types'
+import { getAccessibleName } from '../../common/aria'
+
+/**
+ * WAI-ARIA Landmark Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/practices/landmark-regions/
+ */
+const LANDMARKS_RULES: LandmarksRule[] = [
+  {
+    id: 'landmarks-single-main',
+    description: 'Page must not have more than one main landmark',
+    severity: 'error',
+    test: (pattern) => pattern.metadata.roles.filter(role => role === 'main').length <= 1,
+    message: 'Page has more than one main landmark',
+    suggestion: 'Keep a single <main> element for the primary content',
+  },
+  {
+    id: 'landmarks-unique-names',
+    description: 'Landmarks with the same role must have unique accessible names',
+    severity: 'error',
+    test: (pattern) => {
+      const { landmarks } = pattern.relatedElements
+      const { roles } = pattern.metadata
+
+      return landmarks.every((landmark, index) => {
+        const siblings = landmarks.filter((_, i) => roles[i] === roles[index])
+        if (siblings.length < 2) return true
+
+        const name = getAccessibleName(landmark)
+        return name !== '' &&
+          siblings.every(other => other === landmark || getAccessibleName(other) !== name)
+      })
+    },
+    message: 'Page has several landmarks with the same role but no unique names',
+    suggestion: 'Add a distinct aria-label to each landmark of the same role (e.g. "Main" and "Footer" navigation)',
+  },
+  {
+    id: 'landmarks-content-outside',
+    description: 'All content should be inside landmarks',
+    severity: 'warning',
+    test: (pattern) => pattern.relatedElements.uncontainedContent.length === 0,
+    message: 'Page has content outside of any landmark',
+    suggestion: 'Move the content into <header>, <nav>, <main>, <aside> or <footer>',
+  },
+]
+
+/**
+ * Validates the landmark structure of a page
+ */
+export class LandmarksValidator {
+  /**
+   * Validate a landmarks pattern
+   */
+  validate(pattern: LandmarksPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of LANDMARKS_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,101 @@
+import type { ListboxPattern } from './types'
+import { findControllingElements } from '../../common/dom'
+import { getOwnedElements, getOwnerElement, getRole, getRoleDefinition } from '../../common/aria'
+
+/**
+ * Detects listbox patterns in the document
+ */
+export class ListboxDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all listbox patterns
+   */
+  detectAll(): ListboxPattern[] {
+    const patterns: ListboxPattern[] = []
+
+    // Level 1: Explicit ARIA roles
+    patterns.push(...this.detectExplicitListboxes())
+
+    // Level 2: Native <select multiple> elements
+    patterns.push(...this.detectNativeListboxes())
+
+    return patterns
+  }
+
+  /**
+   * Detect elements with role="listbox"
+   */
+  private detectExplicitListboxes(): ListboxPattern[] {
+    const elements = this.document.querySelectorAll('[role="listbox"]')
+
+    return Array.from(elements).map(element =>
+      this.createListboxPattern(element, 'explicit-role')
+    )
+  }
+
+  /**
+   * Detect <select> elements that map to the listbox role
+   */
+  private detectNativeListboxes(): ListboxPattern[] {
+    const elements = this.document.querySelectorAll('select:not([role])')
+
+    return Array.from(elements)
+      .filter(element => getRole(element) === 'listbox')
+      .map(element => this.createListboxPattern(element, 'native-element'))
+  }
+
+  /**
+   * Create a listbox pattern object
+   */
+  private createListboxPattern(
+    element: Element,
+    detectionMethod: ListboxPattern['detectionMethod']
+  ): ListboxPattern {
+    const isNative = detectionMethod === 'native-element'
+    const allowed = getRoleDefinition('listbox')?.requiredOwned || []
+
+    const owned = getOwnedElements(element)
+    const groups = owned.filter(el => getRole(el) === 'group')
+    const groupOwned = groups.flatMap(group => getOwnedElements(group))
+    const options = [...owned, ...groupOwned].filter(el => getRole(el) === 'option')
+
+    return {
+      type: 'listbox',
+      confidence: 'high',
+      detectionMethod,
+      element,
+      relatedElements: {
+        options,
+        groups,
+        selectedOptions: options.filter(option =>
+          isNative
+            ? (option as HTMLOptionElement).selected
+            : option.getAttribute('aria-selected') === 'true'
+        ),
+        invalidChildren: [
+          ...owned.filter(el => !allowed.includes(getRole(el) || '')),
+          ...groupOwned.filter(el => getRole(el) !== 'option'),
+        ],
+      },
+      metadata: {
+        isNative,
+        isMultiselectable: isNative || element.getAttribute('aria-multiselectable') === 'true',
+        isComboboxPopup: this.isComboboxPopup(element),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Check if the listbox is controlled or owned by a combobox
+   */
+  private isComboboxPopup(listbox: Element): boolean {
+    const owner = getOwnerElement(listbox)
+    if (owner && getRole(owner) === 'combobox') return true
+
+    return findControllingElements(this.document, listbox).some(
+      el => getRole(el) === 'combobox'
+    )
+  }
+}
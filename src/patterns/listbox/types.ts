@@ -0,0 +1,44 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Listbox-specific pattern with related elements
+ */
+export interface ListboxPattern extends Pattern {
+  type: 'listbox'
+  relatedElements: {
+    /** Options owned by the listbox, including those inside groups */
+    options: Element[]
+    /** Groups owned by the listbox */
+    groups: Element[]
+    /** Options with aria-selected="true" */
+    selectedOptions: Element[]
+    /** Owned elements that are not options or groups */
+    invalidChildren: Element[]
+  }
+  metadata: {
+    /** Whether this is a native <select multiple> element */
+    isNative: boolean
+    /** Whether the listbox allows multiple selection */
+    isMultiselectable: boolean
+    /** Whether the listbox is the popup of a combobox */
+    isComboboxPopup: boolean
+  }
+}
+
+/**
+ * Listbox validation rule
+ */
+export interface ListboxRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: ListboxPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,86 @@
+import type { ListboxPattern, ListboxRule } from './types'
+import type { Issue } from '../../core/types'
+import { hasAccessibleName, isTabbable } from '../../common/aria'
+
+/**
+ * APG Listbox Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/listbox/
+ */
+const LISTBOX_RULES: ListboxRule[] = [
+  {
+    id: 'listbox-invalid-children',
+    description: 'Listbox must only own options and groups',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.invalidChildren.length === 0,
+    message: 'Listbox contains children that are not options or groups of options',
+    suggestion: 'Add role="option" to each item and role="none" to wrapper elements',
+  },
+  {
+    id: 'listbox-selection',
+    description: 'Single-select listbox must have at most one selected option',
+    severity: 'error',
+    test: (pattern) => {
+      if (pattern.metadata.isMultiselectable) return true
+      return pattern.relatedElements.selectedOptions.length <= 1
+    },
+    message: 'Listbox has multiple selected options but is missing aria-multiselectable="true"',
+    suggestion: 'Add aria-multiselectable="true" or keep aria-selected="true" on a single option',
+  },
+  {
+    id: 'listbox-option-name',
+    description: 'Options must have accessible names',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.options.every(option => hasAccessibleName(option))
+    },
+    message: 'Option must have an accessible name',
+    suggestion: 'Add visible text or aria-label to each option',
+  },
+  {
+    id: 'listbox-focus-strategy',
+    description: 'Listbox must manage focus with roving tabindex or aria-activedescendant',
+    severity: 'error',
+    test: (pattern) => {
+      const { element, metadata, relatedElements } = pattern
+
+      // Native selects and combobox popups manage focus elsewhere
+      if (metadata.isNative || metadata.isComboboxPopup) return true
+
+      if (element.hasAttribute('aria-activedescendant') && isTabbable(element)) {
+        return true
+      }
+
+      return relatedElements.options.filter(option => isTabbable(option)).length === 1
+    },
+    message: 'Listbox does not use roving tabindex or aria-activedescendant',
+    suggestion: 'Make the listbox focusable with aria-activedescendant, or give exactly one option tabindex="0" and the rest tabindex="-1"',
+  },
+]
+
+/**
+ * Validates listbox patterns against APG rules
+ */
+export class ListboxValidator {
+  /**
+   * Validate a listbox pattern
+   */
+  validate(pattern: ListboxPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of LISTBOX_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,61 @@
+import type { LiveRegionPattern } from './types'
+import { getRole } from '../../common/aria'
+
+/**
+ * Live region roles and their implicit aria-live value
+ * Based on: https://www.w3.org/TR/wai-aria-1.2/#live_region_roles
+ */
+const LIVE_REGION_ROLES: Record<string, string> = {
+  alert: 'assertive',
+  log: 'polite',
+  marquee: 'off',
+  status: 'polite',
+  timer: 'off',
+}
+
+/**
+ * Detects live region patterns in the document
+ */
+export class LiveRegionDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all live region patterns
+   */
+  detectAll(): LiveRegionPattern[] {
+    // Level 1: Live region roles and explicit aria-live
+    const selector = [
+      ...Object.keys(LIVE_REGION_ROLES).map(role => `[role="${role}"]`),
+      '[aria-live]',
+    ].join(', ')
+
+    const elements = this.document.querySelectorAll(selector)
+
+    return Array.from(elements).map(element => this.createLiveRegionPattern(element))
+  }
+
+  /**
+   * Create a live region pattern object
+   */
+  private createLiveRegionPattern(element: Element): LiveRegionPattern {
+    const role = getRole(element)
+    const liveRole = role && role in LIVE_REGION_ROLES ? role : null
+    const live = element.getAttribute('aria-live')
+
+    return {
+      type: 'live-region',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element,
+      relatedElements: {
+        hiddenAncestor: element.closest('[aria-hidden="true"]'),
+      },
+      metadata: {
+        role: liveRole,
+        politeness: live?.trim() || (liveRole ? LIVE_REGION_ROLES[liveRole] : 'off'),
+        hasContent: !!element.textContent?.trim(),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
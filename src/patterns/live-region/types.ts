@@ -0,0 +1,38 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Live region pattern (alerts, status messages, logs, timers)
+ */
+export interface LiveRegionPattern extends Pattern {
+  type: 'live-region'
+  relatedElements: {
+    /** Closest aria-hidden="true" ancestor, or the region itself (null if none) */
+    hiddenAncestor: Element | null
+  }
+  metadata: {
+    /** Live region role (null for plain aria-live elements) */
+    role: string | null
+    /** Effective politeness from aria-live or the implicit value of the role */
+    politeness: string
+    /** Whether the region already has content at analysis time */
+    hasContent: boolean
+  }
+}
+
+/**
+ * Live region validation rule
+ */
+export interface LiveRegionRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: LiveRegionPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,78 @@
+import type { LiveRegionPattern, LiveRegionRule } from './types'
+import type { Issue } from '../../core/types'
+import { isValidAttributeValue } from '../../common/aria'
+
+/**
+ * WAI-ARIA Live Region Rules
+ * Based on: https://www.w3.org/TR/wai-aria-1.2/#live_region_roles
+ */
+const LIVE_REGION_RULES: LiveRegionRule[] = [
+  {
+    id: 'live-region-live-value',
+    description: 'aria-live must have a valid value',
+    severity: 'error',
+    test: (pattern) => isValidAttributeValue(pattern.element, 'aria-live'),
+    message: 'Live region has an invalid aria-live value',
+    suggestion: 'Use aria-live="polite", "assertive" or "off"',
+  },
+  {
+    id: 'live-region-atomic-value',
+    description: 'aria-atomic must have a valid value',
+    severity: 'error',
+    test: (pattern) => isValidAttributeValue(pattern.element, 'aria-atomic'),
+    message: 'Live region has an invalid aria-atomic value',
+    suggestion: 'Use aria-atomic="true" or "false"',
+  },
+  {
+    id: 'live-region-relevant-value',
+    description: 'aria-relevant must have a valid value',
+    severity: 'error',
+    test: (pattern) => isValidAttributeValue(pattern.element, 'aria-relevant'),
+    message: 'Live region has an invalid aria-relevant value',
+    suggestion: 'Use a space-separated list of "additions", "removals", "text", or "all"',
+  },
+  {
+    id: 'live-region-initial-alert',
+    description: 'Alerts should be empty in the initial markup',
+    severity: 'warning',
+    test: (pattern) => pattern.metadata.role !== 'alert' || !pattern.metadata.hasContent,
+    message: 'Alert already has content; alerts present when the page loads are usually not announced',
+    suggestion: 'Render an empty role="alert" container and insert the message when it occurs',
+  },
+  {
+    id: 'live-region-hidden',
+    description: 'Live regions must not be inside aria-hidden content',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.hiddenAncestor === null,
+    message: 'Live region is hidden with aria-hidden="true" and will never be announced',
+    suggestion: 'Move the live region out of the aria-hidden subtree',
+  },
+]
+
+/**
+ * Validates live region patterns against WAI-ARIA rules
+ */
+export class LiveRegionValidator {
+  /**
+   * Validate a live region pattern
+   */
+  validate(pattern: LiveRegionPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of LIVE_REGION_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,130 @@
+import type { MenuButtonPattern } from './types'
+import {
+  findControllingElements,
+  getReferencedElements,
+  isVisible,
+} from '../../common/dom'
+import { getRole } from '../../common/aria'
+
+/**
+ * Detects menu button patterns in the document
+ */
+export class MenuButtonDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all menu button patterns
+   */
+  detectAll(): MenuButtonPattern[] {
+    const patterns: MenuButtonPattern[] = []
+
+    // Level 1: Buttons with aria-haspopup="menu" or "true"
+    patterns.push(...this.detectMenuButtons())
+
+    // Level 2: Menu popups that no button refers to
+    patterns.push(...this.detectUnreferencedPopups())
+
+    return patterns
+  }
+
+  /**
+   * Detect buttons that declare a menu popup
+   */
+  private detectMenuButtons(): MenuButtonPattern[] {
+    const elements = this.document.querySelectorAll(
+      '[aria-haspopup="menu"], [aria-haspopup="true"]'
+    )
+
+    return Array.from(elements)
+      .filter(element => getRole(element) === 'button')
+      .map(button =>
+        this.createMenuButtonPattern(
+          button,
+          button,
+          this.findPopup(button),
+          'explicit-role',
+          'high'
+        )
+      )
+  }
+
+  /**
+   * Detect hidden top-level menus that are not controlled by anything
+   */
+  private detectUnreferencedPopups(): MenuButtonPattern[] {
+    const menus = Array.from(this.document.querySelectorAll('[role="menu"]'))
+
+    return menus
+      .filter(menu => {
+        // Submenus belong to a menu or menubar, not to a button
+        if (menu.parentElement?.closest('[role="menu"], [role="menubar"]')) return false
+        if (isVisible(menu)) return false
+
+        return findControllingElements(this.document, menu).length === 0 &&
+          !this.isPlacedAfterMenuButton(menu)
+      })
+      .map(menu =>
+        this.createMenuButtonPattern(menu, null, menu, 'heuristic', 'medium')
+      )
+  }
+
+  /**
+   * Create a menu button pattern object
+   */
+  private createMenuButtonPattern(
+    element: Element,
+    button: Element | null,
+    popup: Element | null,
+    detectionMethod: MenuButtonPattern['detectionMethod'],
+    confidence: MenuButtonPattern['confidence']
+  ): MenuButtonPattern {
+    return {
+      type: 'menu-button',
+      confidence,
+      detectionMethod,
+      element,
+      relatedElements: {
+        button,
+        popup,
+      },
+      metadata: {
+        expanded: button?.getAttribute('aria-expanded') ?? null,
+        isPopupVisible: !!popup && isVisible(popup),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find the menu controlled by a button
+   */
+  private findPopup(button: Element): Element | null {
+    // aria-controls
+    const controlled = getReferencedElements(button, 'aria-controls').find(
+      el => getRole(el) === 'menu'
+    )
+    if (controlled) return controlled
+
+    // data-target (common pattern)
+    const target = button.getAttribute('data-target')
+    if (target) {
+      const element = this.document.getElementById(target.replace(/^#/, ''))
+      if (element && getRole(element) === 'menu') return element
+    }
+
+    // Menu placed directly after the button
+    const sibling = button.nextElementSibling
+    return sibling && getRole(sibling) === 'menu' ? sibling : null
+  }
+
+  /**
+   * Check if a menu directly follows a button that declares a menu popup
+   */
+  private isPlacedAfterMenuButton(menu: Element): boolean {
+    const previous = menu.previousElementSibling
+    if (!previous || getRole(previous) !== 'button') return false
+
+    const popup = previous.getAttribute('aria-haspopup')
+    return popup === 'menu' || popup === 'true'
+  }
+}
@@ -0,0 +1,38 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Menu button-specific pattern with related elements
+ */
+export interface MenuButtonPattern extends Pattern {
+  type: 'menu-button'
+  relatedElements: {
+    /** Button that opens the menu (null for an unreferenced popup) */
+    button: Element | null
+    /** Menu popup controlled by the button */
+    popup: Element | null
+  }
+  metadata: {
+    /** Value of aria-expanded on the button (null when missing) */
+    expanded: string | null
+    /** Whether the popup is currently visible */
+    isPopupVisible: boolean
+  }
+}
+
+/**
+ * Menu button validation rule
+ */
+export interface MenuButtonRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: MenuButtonPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
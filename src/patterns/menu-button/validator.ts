@@ -0,0 +1,79 @@
+import type { MenuButtonPattern, MenuButtonRule } from './types'
+import type { Issue } from '../../core/types'
+
+/**
+ * APG Menu Button Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/menu-button/
+ */
+const MENU_BUTTON_RULES: MenuButtonRule[] = [
+  {
+    id: 'menu-button-popup-referenced',
+    description: 'Menu popups must be referenced by a button',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.button !== null,
+    message: 'Menu popup is not referenced by any button',
+    suggestion: 'Add aria-haspopup="menu" and aria-controls pointing at the menu to the button that opens it',
+  },
+  {
+    id: 'menu-button-controls-menu',
+    description: 'Menu button must control a menu',
+    severity: 'error',
+    test: (pattern) => {
+      if (!pattern.relatedElements.button) return true
+      return pattern.relatedElements.popup !== null
+    },
+    message: 'Menu button does not control an element with role="menu"',
+    suggestion: 'Add aria-controls to the button pointing at the id of its role="menu" element',
+  },
+  {
+    id: 'menu-button-expanded',
+    description: 'Menu button must have aria-expanded',
+    severity: 'error',
+    test: (pattern) => {
+      if (!pattern.relatedElements.button) return true
+      return pattern.metadata.expanded !== null
+    },
+    message: 'Menu button is missing aria-expanded',
+    suggestion: 'Add aria-expanded="false" and set it to "true" while the menu is open',
+  },
+  {
+    id: 'menu-button-expanded-state',
+    description: 'aria-expanded must match the menu visibility',
+    severity: 'error',
+    test: (pattern) => {
+      const { button, popup } = pattern.relatedElements
+      if (!button || !popup || pattern.metadata.expanded === null) return true
+      return (pattern.metadata.expanded === 'true') === pattern.metadata.isPopupVisible
+    },
+    message: 'Menu button aria-expanded does not match whether the menu is visible',
+    suggestion: 'Set aria-expanded="true" when the menu is shown and "false" when it is hidden',
+  },
+]
+
+/**
+ * Validates menu button patterns against APG rules
+ */
+export class MenuButtonValidator {
+  /**
+   * Validate a menu button pattern
+   */
+  validate(pattern: MenuButtonPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of MENU_BUTTON_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
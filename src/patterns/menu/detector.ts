@@ -0,0 +1,149 @@
+import type { MenuPattern } from './types'
+import { getReferencedElements } from '../../common/dom'
+import { getOwnedElements, getRole, getRoleDefinition } from '../../common/aria'
+
+const MENU_SELECTOR = '[role="menu"], [role="menubar"]'
+const ITEM_SELECTOR =
+  '[role="menuitem"], [role="menuitemcheckbox"], [role="menuitemradio"]'
+
+/**
+ * Detects menu and menubar patterns in the document
+ */
+export class MenuDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all menu patterns
+   */
+  detectAll(): MenuPattern[] {
+    const patterns: MenuPattern[] = []
+
+    // Level 1: Explicit menu and menubar roles
+    patterns.push(...this.detectExplicitMenus())
+
+    // Level 2: Menu items that are not inside any menu
+    patterns.push(...this.detectOrphanedItems())
+
+    return patterns
+  }
+
+  /**
+   * Detect elements with role="menu" or role="menubar"
+   */
+  private detectExplicitMenus(): MenuPattern[] {
+    const elements = this.document.querySelectorAll(MENU_SELECTOR)
+
+    return Array.from(elements).map(menu => {
+      const owned = getOwnedElements(menu)
+      const groups = owned.filter(el => getRole(el) === 'group')
+      const items = Array.from(menu.querySelectorAll(ITEM_SELECTOR)).filter(
+        item => item.closest(MENU_SELECTOR) === menu
+      )
+
+      return this.createMenuPattern(menu, items, {
+        groups,
+        invalidChildren: this.findInvalidChildren(menu, owned, groups),
+        detectionMethod: 'explicit-role',
+        confidence: 'high',
+      })
+    })
+  }
+
+  /**
+   * Group menu items without a menu ancestor by their parent element
+   */
+  private detectOrphanedItems(): MenuPattern[] {
+    const containers = new Map<Element, Element[]>()
+
+    for (const item of Array.from(this.document.querySelectorAll(ITEM_SELECTOR))) {
+      if (item.closest(MENU_SELECTOR)) continue
+
+      const container = item.parentElement || item
+      containers.set(container, [...(containers.get(container) || []), item])
+    }
+
+    return Array.from(containers).map(([container, items]) =>
+      this.createMenuPattern(container, items, {
+        groups: [],
+        invalidChildren: [],
+        detectionMethod: 'heuristic',
+        confidence: 'medium',
+      })
+    )
+  }
+
+  /**
+   * Create a menu pattern object
+   */
+  private createMenuPattern(
+    element: Element,
+    items: Element[],
+    options: {
+      groups: Element[]
+      invalidChildren: Element[]
+      detectionMethod: MenuPattern['detectionMethod']
+      confidence: MenuPattern['confidence']
+    }
+  ): MenuPattern {
+    return {
+      type: 'menu',
+      confidence: options.confidence,
+      detectionMethod: options.detectionMethod,
+      element,
+      relatedElements: {
+        items,
+        groups: options.groups,
+        submenuTriggers: items.filter(item => this.opensSubmenu(item)),
+        invalidChildren: options.invalidChildren,
+      },
+      metadata: {
+        isMenubar: getRole(element) === 'menubar',
+        isOrphaned: options.detectionMethod === 'heuristic',
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find owned elements whose role is not allowed by requiredOwned
+   */
+  private findInvalidChildren(
+    menu: Element,
+    owned: Element[],
+    groups: Element[]
+  ): Element[] {
+    const allowed = getRoleDefinition(getRole(menu) || 'menu')?.requiredOwned || []
+    const invalid = owned.filter(el => !allowed.includes(getRole(el) || ''))
+
+    // Groups inside a menu may only contain menu items and separators
+    for (const group of groups) {
+      invalid.push(
+        ...getOwnedElements(group).filter(el => {
+          const role = getRole(el) || ''
+          return !allowed.includes(role) || role === 'group' || role === 'menu'
+        })
+      )
+    }
+
+    return invalid
+  }
+
+  /**
+   * Check if a menu item opens a submenu
+   */
+  private opensSubmenu(item: Element): boolean {
+    const popup = item.getAttribute('aria-haspopup')
+    if (popup && popup !== 'false') return true
+
+    // Submenu referenced via aria-controls or aria-owns
+    const referenced = [
+      ...getReferencedElements(item, 'aria-controls'),
+      ...getReferencedElements(item, 'aria-owns'),
+    ]
+    if (referenced.some(el => getRole(el) === 'menu')) return true
+
+    // Submenu placed directly after the item
+    const sibling = item.nextElementSibling
+    return !!sibling && getRole(sibling) === 'menu'
+  }
+}
@@ -0,0 +1,42 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Menu-specific pattern with related elements
+ */
+export interface MenuPattern extends Pattern {
+  type: 'menu'
+  relatedElements: {
+    /** menuitem, menuitemcheckbox and menuitemradio elements */
+    items: Element[]
+    /** Groups owned by the menu */
+    groups: Element[]
+    /** Items that open a submenu */
+    submenuTriggers: Element[]
+    /** Owned elements with a role the menu does not allow */
+    invalidChildren: Element[]
+  }
+  metadata: {
+    /** Whether this is a menubar */
+    isMenubar: boolean
+    /** Whether the items were found outside of any menu or menubar */
+    isOrphaned: boolean
+  }
+}
+
+/**
+ * Menu validation rule
+ */
+export interface MenuRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: MenuPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,108 @@
+import type { MenuPattern, MenuRule } from './types'
+import type { Issue } from '../../core/types'
+import { getOwnerElement, getRole, getRoleDefinition } from '../../common/aria'
+
+/**
+ * APG Menu and Menubar Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/menubar/
+ */
+const MENU_RULES: MenuRule[] = [
+  {
+    id: 'menu-has-items',
+    description: 'Menu must contain menu items',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.items.length > 0,
+    message: 'Menu contains no menuitem, menuitemcheckbox or menuitemradio elements',
+    suggestion: 'Add role="menuitem" to each item inside the menu',
+  },
+  {
+    id: 'menu-invalid-children',
+    description: 'Menu must only own menu items, groups and separators',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.invalidChildren.length === 0,
+    message: 'Menu contains children that are not menu items, groups or separators',
+    suggestion: 'Add role="none" to wrapper elements such as <li> inside the menu',
+  },
+  {
+    id: 'menu-item-context',
+    description: 'Menu items must be owned by a menu, menubar or group',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.items.every(item => {
+        const owner = getOwnerElement(item)
+        const context = getRoleDefinition(getRole(item) || '')?.requiredContext || []
+        return !!owner && context.includes(getRole(owner) || '')
+      })
+    },
+    message: 'Menu item is not owned by a menu, menubar or group',
+    suggestion: 'Place menu items directly inside role="menu" or role="menubar", using role="none" on wrappers',
+  },
+  {
+    id: 'menu-item-checked',
+    description: 'Checkable menu items must have aria-checked',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.items
+        .filter(item => {
+          const role = getRole(item)
+          return role === 'menuitemcheckbox' || role === 'menuitemradio'
+        })
+        .every(item => item.hasAttribute('aria-checked'))
+    },
+    message: 'menuitemcheckbox and menuitemradio elements must have aria-checked',
+    suggestion: 'Add aria-checked="true" or aria-checked="false" to each checkable menu item',
+  },
+  {
+    id: 'menu-submenu-haspopup',
+    description: 'Items that open a submenu must have aria-haspopup',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.submenuTriggers.every(item => {
+        const popup = item.getAttribute('aria-haspopup')
+        return !!popup && popup !== 'false'
+      })
+    },
+    message: 'Menu item opens a submenu but is missing aria-haspopup',
+    suggestion: 'Add aria-haspopup="menu" to menu items that open a submenu',
+  },
+  {
+    id: 'menu-submenu-expanded',
+    description: 'Items that open a submenu must have aria-expanded',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.submenuTriggers.every(item =>
+        item.hasAttribute('aria-expanded')
+      )
+    },
+    message: 'Menu item opens a submenu but is missing aria-expanded',
+    suggestion: 'Add aria-expanded="false" and set it to "true" while the submenu is open',
+  },
+]
+
+/**
+ * Validates menu patterns against APG rules
+ */
+export class MenuValidator {
+  /**
+   * Validate a menu pattern
+   */
+  validate(pattern: MenuPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of MENU_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
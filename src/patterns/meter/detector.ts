@@ -0,0 +1,54 @@
+import type { MeterPattern } from './types'
+import { getLabel, getRangeValue } from '../../common/aria'
+
+/**
+ * Detects meter and progressbar patterns in the document
+ */
+export class MeterDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all meter and progressbar patterns
+   */
+  detectAll(): MeterPattern[] {
+    // Level 1: Explicit role="meter" and role="progressbar"
+    // Level 2: Native <meter> and <progress>
+    const elements = this.document.querySelectorAll(
+      '[role="meter"], [role="progressbar"], meter:not([role]), progress:not([role])'
+    )
+
+    return Array.from(elements).map(element => this.createMeterPattern(element))
+  }
+
+  /**
+   * Create a meter pattern object
+   */
+  private createMeterPattern(element: Element): MeterPattern {
+    const tagName = element.tagName.toLowerCase()
+    const isNative = tagName === 'meter' || tagName === 'progress'
+    const role = element.getAttribute('role') === 'progressbar' || tagName === 'progress'
+      ? 'progressbar'
+      : 'meter'
+    const value = getRangeValue(element)
+
+    return {
+      type: 'meter',
+      confidence: 'high',
+      detectionMethod: isNative && !element.hasAttribute('role') ? 'native-element' : 'explicit-role',
+      element,
+      relatedElements: {
+        label: getLabel(element),
+      },
+      metadata: {
+        role,
+        isNative,
+        isIndeterminate: role === 'progressbar' && value.now === null,
+        valueNow: value.now,
+        valueMin: value.min,
+        valueMax: value.max,
+        valueText: value.text,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
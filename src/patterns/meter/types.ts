@@ -0,0 +1,46 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Meter and progressbar pattern
+ */
+export interface MeterPattern extends Pattern {
+  type: 'meter'
+  relatedElements: {
+    /** Visible label element (null if not labelled by an element) */
+    label: Element | null
+  }
+  metadata: {
+    /** Role of the element */
+    role: 'meter' | 'progressbar'
+    /** Whether the element is a native <meter> or <progress> */
+    isNative: boolean
+    /** Whether the progressbar has no current value */
+    isIndeterminate: boolean
+    /** Current value (null if missing) */
+    valueNow: number | null
+    /** Minimum value (0 by default) */
+    valueMin: number | null
+    /** Maximum value (100 by default, 1 for native elements) */
+    valueMax: number | null
+    /** Value of aria-valuetext (null if missing) */
+    valueText: string | null
+  }
+}
+
+/**
+ * Meter validation rule
+ */
+export interface MeterRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: MeterPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,94 @@
+import type { MeterPattern, MeterRule } from './types'
+import type { Issue } from '../../core/types'
+import { hasAccessibleName } from '../../common/aria'
+
+/**
+ * Meter and Progressbar Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/meter/
+ * Progressbar: https://www.w3.org/TR/wai-aria-1.2/#progressbar
+ */
+const METER_RULES: MeterRule[] = [
+  {
+    id: 'meter-value-required',
+    description: 'Meter must have aria-valuenow',
+    severity: 'error',
+    test: (pattern) => pattern.metadata.role !== 'meter' || pattern.metadata.valueNow !== null,
+    message: 'Meter is missing a numeric aria-valuenow',
+    suggestion: 'Add aria-valuenow with the current value; only progress bars can be indeterminate',
+  },
+  {
+    id: 'meter-value-range',
+    description: 'Value must lie within the minimum and maximum',
+    severity: 'error',
+    test: (pattern) => {
+      const { valueNow, valueMin, valueMax } = pattern.metadata
+      if (valueMin !== null && valueMax !== null && valueMin > valueMax) return false
+      if (valueNow === null) return true
+
+      return (valueMin === null || valueNow >= valueMin) &&
+        (valueMax === null || valueNow <= valueMax)
+    },
+    message: 'Value is outside the minimum and maximum',
+    suggestion: 'Keep the minimum <= value <= maximum',
+  },
+  {
+    id: 'meter-indeterminate',
+    description: 'Indeterminate progress bars must not announce a value',
+    severity: 'warning',
+    test: (pattern) => !pattern.metadata.isIndeterminate || pattern.metadata.valueText === null,
+    message: 'Progress bar has aria-valuetext but no aria-valuenow, so it is indeterminate',
+    suggestion: 'Add aria-valuenow when progress is known, or remove aria-valuetext while it is indeterminate',
+  },
+  {
+    id: 'meter-name',
+    description: 'Meter and progress bar must have an accessible name',
+    severity: 'error',
+    test: (pattern) => hasAccessibleName(pattern.element),
+    message: 'Meter or progress bar has no accessible name',
+    suggestion: 'Add a <label>, aria-label, or aria-labelledby (e.g. "Upload progress")',
+  },
+  {
+    id: 'meter-valuetext',
+    description: 'Values in units other than percent should provide aria-valuetext',
+    severity: 'warning',
+    test: (pattern) => {
+      const { valueMin, valueMax, valueText, isIndeterminate } = pattern.metadata
+      if (valueText !== null || isIndeterminate) return true
+
+      // Native progress bars are always announced as a percentage
+      if (pattern.metadata.isNative && pattern.metadata.role === 'progressbar') return true
+
+      return valueMin === 0 && valueMax === 100
+    },
+    message: 'Value is not a percentage but has no aria-valuetext',
+    suggestion: 'Add aria-valuetext with the unit, e.g. "3.2 of 5 GB used"',
+  },
+]
+
+/**
+ * Validates meter and progressbar patterns
+ */
+export class MeterValidator {
+  /**
+   * Validate a meter pattern
+   */
+  validate(pattern: MeterPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of METER_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
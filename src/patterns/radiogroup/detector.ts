@@ -0,0 +1,140 @@
+import type { RadioGroupPattern } from './types'
+import { findCommonAncestor } from '../../common/dom'
+import { getRole } from '../../common/aria'
+
+/**
+ * Detects radio group patterns in the document
+ */
+export class RadioGroupDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all radio group patterns
+   */
+  detectAll(): RadioGroupPattern[] {
+    const patterns: RadioGroupPattern[] = []
+
+    // Level 1: Explicit role="radiogroup"
+    patterns.push(...this.detectExplicitGroups())
+
+    // Level 2: Native radios grouped by name
+    patterns.push(...this.detectNativeGroups())
+
+    return patterns
+  }
+
+  /**
+   * Detect elements with role="radiogroup"
+   */
+  private detectExplicitGroups(): RadioGroupPattern[] {
+    const elements = this.document.querySelectorAll('[role="radiogroup"]')
+
+    return Array.from(elements).map(group => {
+      const radios = Array.from(group.querySelectorAll('*')).filter(
+        el => getRole(el) === 'radio' && el.closest('[role="radiogroup"]') === group
+      )
+
+      return this.createRadioGroupPattern(group, radios, 'explicit-role', null)
+    })
+  }
+
+  /**
+   * Group native radios outside a radiogroup by form and name
+   */
+  private detectNativeGroups(): RadioGroupPattern[] {
+    // Radios with the same name only form a group within the same form
+    const forms = new Map<Element | null, Map<string, Element[]>>()
+
+    const radios = this.document.querySelectorAll('input[type="radio"][name]:not([role])')
+
+    for (const radio of Array.from(radios)) {
+      if (radio.closest('[role="radiogroup"]')) continue
+
+      const form = radio.closest('form')
+      const name = radio.getAttribute('name') || ''
+      const groups = forms.get(form) || new Map<string, Element[]>()
+
+      groups.set(name, [...(groups.get(name) || []), radio])
+      forms.set(form, groups)
+    }
+
+    return Array.from(forms.values())
+      .flatMap(groups => Array.from(groups))
+      .map(([name, group]) =>
+        this.createRadioGroupPattern(
+          this.findGroupContainer(group),
+          group,
+          'native-element',
+          name
+        )
+      )
+  }
+
+  /**
+   * Find the element that wraps all radios of a native group
+   * Prefers a shared fieldset, falls back to the closest common ancestor
+   */
+  private findGroupContainer(radios: Element[]): Element {
+    const fieldset = radios[0].closest('fieldset')
+    if (fieldset && radios.every(radio => fieldset.contains(radio))) {
+      return fieldset
+    }
+
+    let container: Element | null = radios[0].parentElement
+    for (const radio of radios.slice(1)) {
+      container = container && findCommonAncestor(container, radio)
+    }
+
+    return container || radios[0]
+  }
+
+  /**
+   * Create a radio group pattern object
+   */
+  private createRadioGroupPattern(
+    element: Element,
+    radios: Element[],
+    detectionMethod: RadioGroupPattern['detectionMethod'],
+    name: string | null
+  ): RadioGroupPattern {
+    return {
+      type: 'radiogroup',
+      confidence: 'high',
+      detectionMethod,
+      element,
+      relatedElements: {
+        radios,
+        checkedRadios: radios.filter(radio => this.isChecked(radio)),
+        legend: this.findLegend(element),
+      },
+      metadata: {
+        isNative: detectionMethod === 'native-element',
+        name,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Check if a native or custom radio is checked
+   */
+  private isChecked(radio: Element): boolean {
+    if (radio.tagName.toLowerCase() === 'input') {
+      return (radio as HTMLInputElement).checked
+    }
+
+    return radio.getAttribute('aria-checked') === 'true'
+  }
+
+  /**
+   * Find the legend of the fieldset that wraps the group
+   */
+  private findLegend(group: Element): Element | null {
+    const fieldset = group.closest('fieldset')
+    if (!fieldset) return null
+
+    return Array.from(fieldset.children).find(
+      child => child.tagName.toLowerCase() === 'legend'
+    ) || null
+  }
+}
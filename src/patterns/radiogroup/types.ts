@@ -0,0 +1,40 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Radio group-specific pattern with related elements
+ */
+export interface RadioGroupPattern extends Pattern {
+  type: 'radiogroup'
+  relatedElements: {
+    /** Radios in the group */
+    radios: Element[]
+    /** Radios that are checked */
+    checkedRadios: Element[]
+    /** <legend> of the enclosing fieldset, if any */
+    legend: Element | null
+  }
+  metadata: {
+    /** Whether the group is made of native input[type=radio] elements */
+    isNative: boolean
+    /** Shared name attribute of native radios */
+    name: string | null
+  }
+}
+
+/**
+ * Radio group validation rule
+ */
+export interface RadioGroupRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: RadioGroupPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
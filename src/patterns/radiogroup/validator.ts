@@ -0,0 +1,98 @@
+import type { RadioGroupPattern, RadioGroupRule } from './types'
+import type { Issue } from '../../core/types'
+import { hasAccessibleName, isTabbable } from '../../common/aria'
+
+/**
+ * APG Radio Group Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/radio/
+ */
+const RADIOGROUP_RULES: RadioGroupRule[] = [
+  {
+    id: 'radiogroup-has-radios',
+    description: 'Radio group must contain radios',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.radios.length > 0,
+    message: 'Radio group contains no radio buttons',
+    suggestion: 'Add role="radio" to each option inside the radiogroup',
+  },
+  {
+    id: 'radiogroup-label',
+    description: 'Radio group must have a label',
+    severity: 'error',
+    test: (pattern) => {
+      const { legend } = pattern.relatedElements
+      return !!legend?.textContent?.trim() || hasAccessibleName(pattern.element)
+    },
+    message: 'Radio group has no label',
+    suggestion: 'Wrap native radios in a <fieldset> with a <legend>, or add aria-label or aria-labelledby to the radiogroup',
+  },
+  {
+    id: 'radiogroup-single-checked',
+    description: 'At most one radio can be checked',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.checkedRadios.length <= 1,
+    message: 'Radio group has more than one checked radio',
+    suggestion: 'Set aria-checked="true" on the selected radio only',
+  },
+  {
+    id: 'radiogroup-aria-checked',
+    description: 'Custom radios must expose aria-checked',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.radios
+        .filter(radio => radio.tagName.toLowerCase() !== 'input')
+        .every(radio => radio.hasAttribute('aria-checked'))
+    },
+    message: 'Custom radio is missing aria-checked',
+    suggestion: 'Add aria-checked="true" or aria-checked="false" to each role="radio" element',
+  },
+  {
+    id: 'radiogroup-roving-tabindex',
+    description: 'Only the checked radio, or the first radio, should be in the tab sequence',
+    severity: 'error',
+    test: (pattern) => {
+      const { radios, checkedRadios } = pattern.relatedElements
+
+      // Inside a toolbar the toolbar owns the single tab stop, so all radios are tabindex="-1"
+      if (pattern.element.closest('[role="toolbar"]')) return true
+
+      // Browsers manage the tab sequence of native radios, even inside role="radiogroup"
+      const customRadios = radios.filter(radio => !radio.matches('input[type="radio"]'))
+      if (pattern.metadata.isNative || customRadios.length === 0) return true
+
+      const expected = checkedRadios.find(radio => customRadios.includes(radio)) || customRadios[0]
+      const tabbable = customRadios.filter(radio => isTabbable(radio))
+      return tabbable.length === 1 && tabbable[0] === expected
+    },
+    message: 'Radio group does not use roving tabindex',
+    suggestion: 'Give the checked radio (or the first radio when none is checked) tabindex="0" and the others tabindex="-1"',
+  },
+]
+
+/**
+ * Validates radio group patterns against APG rules
+ */
+export class RadioGroupValidator {
+  /**
+   * Validate a radio group pattern
+   */
+  validate(pattern: RadioGroupPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of RADIOGROUP_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,84 @@
+import type { SliderPattern } from './types'
+import { getRangeValue, getRole } from '../../common/aria'
+
+/**
+ * Class tokens of a rail that the thumbs of one slider share (e.g. "slider-rail")
+ */
+const RAIL_CLASS = /(^|[-_])(rail|track)$/i
+
+/**
+ * Detects slider patterns in the document
+ */
+export class SliderDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all slider patterns
+   */
+  detectAll(): SliderPattern[] {
+    // Level 1: Explicit role="slider"
+    // Level 2: Native input[type=range]
+    const elements = this.document.querySelectorAll(
+      '[role="slider"], input[type="range"]:not([role])'
+    )
+
+    return Array.from(elements).map(element => this.createSliderPattern(element))
+  }
+
+  /**
+   * Create a slider pattern object
+   */
+  private createSliderPattern(element: Element): SliderPattern {
+    const isNative = element.tagName.toLowerCase() === 'input'
+    const group = this.findGroup(element)
+    const thumbs = this.findThumbs(element, group)
+    const orientation = element.getAttribute('aria-orientation')
+    const value = getRangeValue(element)
+
+    return {
+      type: 'slider',
+      confidence: 'high',
+      detectionMethod: isNative ? 'native-element' : 'explicit-role',
+      element,
+      relatedElements: {
+        group,
+        thumbs,
+      },
+      metadata: {
+        isNative,
+        isMultiThumb: thumbs.length > 1,
+        orientation: orientation || 'horizontal',
+        valueNow: value.now,
+        valueMin: value.min,
+        valueMax: value.max,
+        valueText: value.text,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find the group that wraps a slider
+   * Falls back to a rail parent so unwrapped thumbs on one rail are grouped,
+   * but unrelated sliders that merely share a parent are not
+   */
+  private findGroup(slider: Element): Element | null {
+    const group = slider.closest('[role="group"], fieldset')
+    if (group) return group
+
+    const parent = slider.parentElement
+    const isRail = !!parent && Array.from(parent.classList).some(token => RAIL_CLASS.test(token))
+    return isRail ? parent : null
+  }
+
+  /**
+   * Find all sliders that share a group with the slider
+   */
+  private findThumbs(slider: Element, group: Element | null): Element[] {
+    if (!group) return [slider]
+
+    return Array.from(group.querySelectorAll('*')).filter(
+      el => getRole(el) === 'slider' && this.findGroup(el) === group
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Slider-specific pattern with related elements
+ */
+export interface SliderPattern extends Pattern {
+  type: 'slider'
+  relatedElements: {
+    /** role="group", fieldset or rail that wraps the slider (null if none) */
+    group: Element | null
+    /** All thumbs in the same group in document order, including this one */
+    thumbs: Element[]
+  }
+  metadata: {
+    /** Whether the slider is a native input[type=range] */
+    isNative: boolean
+    /** Whether the slider is one thumb of a multi-thumb slider */
+    isMultiThumb: boolean
+    /** Orientation of the slider (defaults to horizontal) */
+    orientation: string
+    /** Current value (null if missing) */
+    valueNow: number | null
+    /** Minimum value (null if missing) */
+    valueMin: number | null
+    /** Maximum value (null if missing) */
+    valueMax: number | null
+    /** Value of aria-valuetext (null if missing) */
+    valueText: string | null
+  }
+}
+
+/**
+ * Slider validation rule
+ */
+export interface SliderRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: SliderPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
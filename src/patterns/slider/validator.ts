@@ -0,0 +1,136 @@
+import type { SliderPattern, SliderRule } from './types'
+import type { Issue } from '../../core/types'
+import standards from '../../standards'
+import { getAccessibleName, getRangeValue, hasAccessibleName } from '../../common/aria'
+
+/**
+ * APG Slider Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/slider/
+ * Multi-thumb: https://www.w3.org/WAI/ARIA/apg/patterns/slider-multithumb/
+ */
+const SLIDER_RULES: SliderRule[] = [
+  {
+    id: 'slider-value-required',
+    description: 'Slider must have aria-valuenow',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.metadata.isNative || pattern.element.hasAttribute('aria-valuenow')
+    },
+    message: 'Slider is missing aria-valuenow',
+    suggestion: 'Add aria-valuenow with the current numeric value',
+  },
+  {
+    id: 'slider-value-range',
+    description: 'aria-valuenow must lie within aria-valuemin and aria-valuemax',
+    severity: 'error',
+    test: (pattern) => {
+      const { valueNow, valueMin, valueMax } = pattern.metadata
+      if (valueMin !== null && valueMax !== null && valueMin > valueMax) return false
+      if (valueNow === null) return true
+
+      return (valueMin === null || valueNow >= valueMin) &&
+        (valueMax === null || valueNow <= valueMax)
+    },
+    message: 'Slider value is outside its minimum and maximum',
+    suggestion: 'Keep aria-valuemin <= aria-valuenow <= aria-valuemax',
+  },
+  {
+    id: 'slider-orientation-valid',
+    description: 'aria-orientation must have a valid value',
+    severity: 'error',
+    test: (pattern) => {
+      return standards.ariaAttrs['aria-orientation'].values.includes(
+        pattern.metadata.orientation
+      )
+    },
+    message: 'Slider has an invalid aria-orientation value',
+    suggestion: 'Use aria-orientation="horizontal" or "vertical"',
+  },
+  {
+    id: 'slider-valuetext',
+    description: 'Sliders with non-numeric values should provide aria-valuetext',
+    severity: 'warning',
+    test: (pattern) => {
+      if (pattern.metadata.valueText !== null || pattern.metadata.isNative) return true
+
+      const rawValue = pattern.element.getAttribute('aria-valuenow')
+      if (rawValue !== null && pattern.metadata.valueNow === null) return false
+
+      // A displayed value that is not the plain number needs a text alternative
+      const displayed = pattern.element.textContent?.trim() || ''
+      return displayed === '' || Number(displayed) === pattern.metadata.valueNow
+    },
+    message: 'Slider value is not a plain number but has no aria-valuetext',
+    suggestion: 'Add aria-valuetext with the human-readable value (e.g. "$20" or "Monday")',
+  },
+  {
+    id: 'slider-name',
+    description: 'Slider must have an accessible name',
+    severity: 'error',
+    test: (pattern) => hasAccessibleName(pattern.element),
+    message: 'Slider has no accessible name',
+    suggestion: 'Add a <label>, aria-label, or aria-labelledby to the slider',
+  },
+  {
+    id: 'slider-thumb-bounds',
+    description: 'Each thumb of a multi-thumb slider must be bounded by its neighbours',
+    severity: 'error',
+    test: (pattern) => {
+      const { thumbs } = pattern.relatedElements
+      if (thumbs.length < 2) return true
+
+      const index = thumbs.indexOf(pattern.element)
+      const { valueMin, valueMax } = pattern.metadata
+      const previous = index > 0 ? getRangeValue(thumbs[index - 1]).now : null
+      const next = index < thumbs.length - 1 ? getRangeValue(thumbs[index + 1]).now : null
+
+      if (previous !== null && (valueMin === null || valueMin < previous)) return false
+      if (next !== null && (valueMax === null || valueMax > next)) return false
+      return true
+    },
+    message: 'Thumb range is not bounded by the value of the neighbouring thumb',
+    suggestion: 'Set aria-valuemin to the previous thumb\'s value and aria-valuemax to the next thumb\'s value',
+  },
+  {
+    id: 'slider-thumb-names',
+    description: 'Thumbs of a multi-thumb slider must have distinct names',
+    severity: 'error',
+    test: (pattern) => {
+      const { thumbs } = pattern.relatedElements
+      const name = getAccessibleName(pattern.element)
+      if (thumbs.length < 2 || !name) return true
+
+      return thumbs.every(thumb => thumb === pattern.element || getAccessibleName(thumb) !== name)
+    },
+    message: 'Thumb has the same name as another thumb of the slider',
+    suggestion: 'Name each thumb after the value it sets (e.g. "Minimum price" and "Maximum price")',
+  },
+]
+
+/**
+ * Validates slider patterns against APG rules
+ */
+export class SliderValidator {
+  /**
+   * Validate a slider pattern
+   */
+  validate(pattern: SliderPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of SLIDER_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
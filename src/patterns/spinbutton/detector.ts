@@ -0,0 +1,80 @@
+import type { SpinbuttonPattern } from './types'
+import { findControllingElements } from '../../common/dom'
+import { getRangeValue, getRole } from '../../common/aria'
+
+/**
+ * Detects spinbutton patterns in the document
+ */
+export class SpinbuttonDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all spinbutton patterns
+   */
+  detectAll(): SpinbuttonPattern[] {
+    // Level 1: Explicit role="spinbutton"
+    // Level 2: Native input[type=number]
+    const elements = this.document.querySelectorAll(
+      '[role="spinbutton"], input[type="number"]:not([role])'
+    )
+
+    return Array.from(elements).map(element => this.createSpinbuttonPattern(element))
+  }
+
+  /**
+   * Create a spinbutton pattern object
+   */
+  private createSpinbuttonPattern(element: Element): SpinbuttonPattern {
+    const isNative =
+      element.tagName.toLowerCase() === 'input' &&
+      (element as HTMLInputElement).type === 'number'
+    const value = getRangeValue(element)
+
+    return {
+      type: 'spinbutton',
+      confidence: 'high',
+      detectionMethod: isNative ? 'native-element' : 'explicit-role',
+      element,
+      relatedElements: {
+        stepButtons: isNative ? [] : this.findStepButtons(element),
+      },
+      metadata: {
+        isNative,
+        valueNow: value.now,
+        valueMin: value.min,
+        valueMax: value.max,
+        displayedValue: this.getDisplayedValue(element),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find increment and decrement buttons
+   * Buttons controlling the spinbutton or placed directly next to it
+   */
+  private findStepButtons(spinbutton: Element): Element[] {
+    const buttons = new Set(
+      findControllingElements(this.document, spinbutton).filter(el => getRole(el) === 'button')
+    )
+
+    for (const sibling of [spinbutton.previousElementSibling, spinbutton.nextElementSibling]) {
+      if (sibling && getRole(sibling) === 'button') {
+        buttons.add(sibling)
+      }
+    }
+
+    return Array.from(buttons)
+  }
+
+  /**
+   * Get the value the user sees in the spinbutton
+   */
+  private getDisplayedValue(spinbutton: Element): string {
+    if (spinbutton.tagName.toLowerCase() === 'input') {
+      return (spinbutton as HTMLInputElement).value.trim()
+    }
+
+    return spinbutton.textContent?.trim() || ''
+  }
+}
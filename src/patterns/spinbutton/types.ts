@@ -0,0 +1,42 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Spinbutton-specific pattern with related elements
+ */
+export interface SpinbuttonPattern extends Pattern {
+  type: 'spinbutton'
+  relatedElements: {
+    /** Increment and decrement buttons next to or controlling the spinbutton */
+    stepButtons: Element[]
+  }
+  metadata: {
+    /** Whether the spinbutton is a native input[type=number] */
+    isNative: boolean
+    /** Current value (null if missing) */
+    valueNow: number | null
+    /** Minimum value (null if missing) */
+    valueMin: number | null
+    /** Maximum value (null if missing) */
+    valueMax: number | null
+    /** Value shown to the user (input value or text content) */
+    displayedValue: string
+  }
+}
+
+/**
+ * Spinbutton validation rule
+ */
+export interface SpinbuttonRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: SpinbuttonPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
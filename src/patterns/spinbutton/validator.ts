@@ -0,0 +1,114 @@
+import type { SpinbuttonPattern, SpinbuttonRule } from './types'
+import type { Issue } from '../../core/types'
+import { getAccessibleName, hasAccessibleName } from '../../common/aria'
+
+/**
+ * APG Spinbutton Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/spinbutton/
+ */
+const SPINBUTTON_RULES: SpinbuttonRule[] = [
+  {
+    id: 'spinbutton-value-required',
+    description: 'Spinbutton must have aria-valuenow unless its value is indeterminate',
+    severity: 'error',
+    test: (pattern) => {
+      if (pattern.metadata.isNative) return true
+      if (pattern.element.hasAttribute('aria-valuenow')) return true
+
+      // Only an empty spinbutton has an indeterminate value
+      return pattern.metadata.displayedValue === '' &&
+        !pattern.element.hasAttribute('aria-valuetext')
+    },
+    message: 'Spinbutton shows a value but is missing aria-valuenow',
+    suggestion: 'Add aria-valuenow with the current numeric value',
+  },
+  {
+    id: 'spinbutton-value-numeric',
+    description: 'aria-valuenow, aria-valuemin and aria-valuemax must be numbers',
+    severity: 'error',
+    test: (pattern) => {
+      return ['aria-valuenow', 'aria-valuemin', 'aria-valuemax'].every(attr => {
+        const value = pattern.element.getAttribute(attr)
+        return value === null || (value.trim() !== '' && !isNaN(Number(value)))
+      })
+    },
+    message: 'Spinbutton has a non-numeric value attribute',
+    suggestion: 'Use numbers for aria-valuenow, aria-valuemin and aria-valuemax, and aria-valuetext for formatted values',
+  },
+  {
+    id: 'spinbutton-value-range',
+    description: 'Value must lie within the minimum and maximum',
+    severity: 'error',
+    test: (pattern) => {
+      const { valueNow, valueMin, valueMax } = pattern.metadata
+      if (valueMin !== null && valueMax !== null && valueMin > valueMax) return false
+      if (valueNow === null) return true
+
+      return (valueMin === null || valueNow >= valueMin) &&
+        (valueMax === null || valueNow <= valueMax)
+    },
+    message: 'Spinbutton value is outside its minimum and maximum',
+    suggestion: 'Keep the minimum <= value <= maximum',
+  },
+  {
+    id: 'spinbutton-name',
+    description: 'Spinbutton must have an accessible name',
+    severity: 'error',
+    test: (pattern) => hasAccessibleName(pattern.element),
+    message: 'Spinbutton has no accessible name',
+    suggestion: 'Add a <label>, aria-label, or aria-labelledby to the spinbutton',
+  },
+  {
+    id: 'spinbutton-step-button-tabindex',
+    description: 'Increment and decrement buttons should not be in the tab sequence',
+    severity: 'warning',
+    test: (pattern) => {
+      return pattern.relatedElements.stepButtons.every(
+        button => button.getAttribute('tabindex') === '-1'
+      )
+    },
+    message: 'Increment or decrement button is in the tab sequence',
+    suggestion: 'Add tabindex="-1" to the buttons; keyboard users change the value with the arrow keys',
+  },
+  {
+    id: 'spinbutton-step-button-name',
+    description: 'Increment and decrement buttons must have a meaningful name',
+    severity: 'error',
+    test: (pattern) => {
+      // Symbols like "+" and "-" are not read as meaningful labels
+      return pattern.relatedElements.stepButtons.every(
+        button => /[\p{L}\p{N}]/u.test(getAccessibleName(button))
+      )
+    },
+    message: 'Increment or decrement button has no meaningful label',
+    suggestion: 'Add aria-label (e.g. "Increase quantity") to the button',
+  },
+]
+
+/**
+ * Validates spinbutton patterns against APG rules
+ */
+export class SpinbuttonValidator {
+  /**
+   * Validate a spinbutton pattern
+   */
+  validate(pattern: SpinbuttonPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of SPINBUTTON_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
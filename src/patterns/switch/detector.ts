@@ -0,0 +1,44 @@
+import type { SwitchPattern } from './types'
+import { getAccessibleName, getLabel } from '../../common/aria'
+
+/**
+ * Detects switch patterns in the document
+ */
+export class SwitchDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all switch patterns
+   */
+  detectAll(): SwitchPattern[] {
+    // Level 1: Explicit role="switch" (includes input[type=checkbox][role=switch])
+    const elements = this.document.querySelectorAll('[role="switch"]')
+
+    return Array.from(elements).map(element => this.createSwitchPattern(element))
+  }
+
+  /**
+   * Create a switch pattern object
+   */
+  private createSwitchPattern(element: Element): SwitchPattern {
+    const isNative =
+      element.tagName.toLowerCase() === 'input' &&
+      (element as HTMLInputElement).type === 'checkbox'
+
+    return {
+      type: 'switch',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element,
+      relatedElements: {
+        label: getLabel(element),
+      },
+      metadata: {
+        isNative,
+        checkedState: element.getAttribute('aria-checked'),
+        name: getAccessibleName(element),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Switch-specific pattern
+ */
+export interface SwitchPattern extends Pattern {
+  type: 'switch'
+  relatedElements: {
+    /** Visible label element (null if not labelled by an element) */
+    label: Element | null
+  }
+  metadata: {
+    /** Whether the switch is a native checkbox with role="switch" */
+    isNative: boolean
+    /** Value of aria-checked (null if missing) */
+    checkedState: string | null
+    /** Computed accessible name */
+    name: string
+  }
+}
+
+/**
+ * Switch validation rule
+ */
+export interface SwitchRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: SwitchPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,80 @@
+import type { SwitchPattern, SwitchRule } from './types'
+import type { Issue } from '../../core/types'
+
+/**
+ * State words that should not be part of a switch name
+ */
+const STATE_TEXT = /^(on|off)\b|\b(on|off)$/i
+
+/**
+ * APG Switch Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/switch/
+ */
+const SWITCH_RULES: SwitchRule[] = [
+  {
+    id: 'switch-checked-required',
+    description: 'Switch must expose its state with aria-checked',
+    severity: 'error',
+    test: (pattern) => {
+      // Native checkboxes expose their state through the checked property
+      return pattern.metadata.isNative || pattern.metadata.checkedState !== null
+    },
+    message: 'Switch is missing aria-checked',
+    suggestion: 'Add aria-checked="true" or aria-checked="false"',
+  },
+  {
+    id: 'switch-checked-value',
+    description: 'aria-checked on a switch must be "true" or "false"',
+    severity: 'error',
+    test: (pattern) => {
+      const { checkedState } = pattern.metadata
+      return checkedState === null || checkedState === 'true' || checkedState === 'false'
+    },
+    message: 'Switch has an invalid aria-checked value',
+    suggestion: 'Switches are either on or off; use aria-checked="true" or "false" (mixed is not supported)',
+  },
+  {
+    id: 'switch-name',
+    description: 'Switch must have an accessible name',
+    severity: 'error',
+    test: (pattern) => pattern.metadata.name.length > 0,
+    message: 'Switch has no accessible name',
+    suggestion: 'Add a <label>, aria-label, or aria-labelledby to the switch',
+  },
+  {
+    id: 'switch-name-state-text',
+    description: 'Switch name should not include its state',
+    severity: 'warning',
+    test: (pattern) => !STATE_TEXT.test(pattern.metadata.name.replace(/[^\w\s]/g, '').trim()),
+    message: 'Switch name contains "On" or "Off", so the name changes with the state',
+    suggestion: 'Keep the label constant (e.g. "Notifications") and let aria-checked convey the state',
+  },
+]
+
+/**
+ * Validates switch patterns against APG rules
+ */
+export class SwitchValidator {
+  /**
+   * Validate a switch pattern
+   */
+  validate(pattern: SwitchPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of SWITCH_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,90 @@
+import type { TabsPattern } from './types'
+import { getReferencedElements } from '../../common/dom'
+
+/**
+ * Detects tabs patterns in the document
+ */
+export class TabsDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all tabs patterns
+   */
+  detectAll(): TabsPattern[] {
+    const elements = this.document.querySelectorAll('[role="tablist"]')
+
+    return Array.from(elements).map(element =>
+      this.createTabsPattern(element)
+    )
+  }
+
+  /**
+   * Create a tabs pattern object
+   */
+  private createTabsPattern(tablist: Element): TabsPattern {
+    const tabs = this.findTabs(tablist)
+    const orientation = tablist.getAttribute('aria-orientation')
+
+    return {
+      type: 'tabs',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element: tablist,
+      relatedElements: {
+        tabs,
+        panels: this.findPanels(tabs),
+        selectedTabs: tabs.filter(
+          tab => tab.getAttribute('aria-selected') === 'true'
+        ),
+      },
+      metadata: {
+        orientation: orientation || 'horizontal',
+        hasExplicitOrientation: orientation !== null,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find tabs owned by the tablist
+   * Tabs inside a nested tablist belong to that tablist instead
+   */
+  private findTabs(tablist: Element): Element[] {
+    const tabs = Array.from(tablist.querySelectorAll('[role="tab"]')).filter(
+      tab => tab.closest('[role="tablist"]') === tablist
+    )
+
+    // aria-owns can move tabs into the tablist from elsewhere
+    const owned = getReferencedElements(tablist, 'aria-owns').filter(
+      el => el.getAttribute('role') === 'tab'
+    )
+
+    return Array.from(new Set([...tabs, ...owned]))
+  }
+
+  /**
+   * Find the panel for each tab
+   */
+  private findPanels(tabs: Element[]): Element[] {
+    const panels: Element[] = []
+
+    for (const tab of tabs) {
+      // aria-controls on the tab
+      panels.push(...getReferencedElements(tab, 'aria-controls'))
+
+      // aria-labelledby on the panel pointing back at the tab
+      if (tab.id) {
+        panels.push(
+          ...Array.from(
+            this.document.querySelectorAll('[role="tabpanel"][aria-labelledby]')
+          ).filter(panel =>
+            getReferencedElements(panel, 'aria-labelledby').includes(tab)
+          )
+        )
+      }
+    }
+
+    // Deduplicate
+    return Array.from(new Set(panels))
+  }
+}
@@ -0,0 +1,40 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Tabs-specific pattern with related elements
+ */
+export interface TabsPattern extends Pattern {
+  type: 'tabs'
+  relatedElements: {
+    /** Tabs owned by this tablist */
+    tabs: Element[]
+    /** Tab panels controlled by the tabs */
+    panels: Element[]
+    /** Tabs with aria-selected="true" */
+    selectedTabs: Element[]
+  }
+  metadata: {
+    /** Orientation of the tablist (defaults to horizontal) */
+    orientation: string
+    /** Whether the tablist has aria-orientation set explicitly */
+    hasExplicitOrientation: boolean
+  }
+}
+
+/**
+ * Tabs validation rule
+ */
+export interface TabsRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: TabsPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
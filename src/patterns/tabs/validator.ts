@@ -0,0 +1,131 @@
+import type { TabsPattern, TabsRule } from './types'
+import type { Issue } from '../../core/types'
+import { getRole, isTabbable } from '../../common/aria'
+import { getReferencedElements } from '../../common/dom'
+import standards from '../../standards'
+
+/**
+ * APG Tabs Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/tabs/
+ */
+const TABS_RULES: TabsRule[] = [
+  {
+    id: 'tabs-has-tabs',
+    description: 'Tablist must contain tabs',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.tabs.length > 0,
+    message: 'Tablist contains no elements with role="tab"',
+    suggestion: 'Add role="tab" to each tab inside the tablist',
+  },
+  {
+    id: 'tabs-single-selected',
+    description: 'Exactly one tab must be selected',
+    severity: 'error',
+    test: (pattern) => {
+      if (pattern.relatedElements.tabs.length === 0) return true
+      return pattern.relatedElements.selectedTabs.length === 1
+    },
+    message: 'Tablist must have exactly one tab with aria-selected="true"',
+    suggestion: 'Set aria-selected="true" on the active tab and aria-selected="false" on the others',
+  },
+  {
+    id: 'tabs-roving-tabindex',
+    description: 'Only the selected tab should be in the tab sequence',
+    severity: 'error',
+    test: (pattern) => {
+      const { tabs, selectedTabs } = pattern.relatedElements
+      if (tabs.length === 0) return true
+
+      const tabbable = tabs.filter(tab => isTabbable(tab))
+      if (tabbable.length !== 1) return false
+
+      // When the selection itself is broken, tabs-single-selected reports it
+      return selectedTabs.length !== 1 || tabbable[0] === selectedTabs[0]
+    },
+    message: 'Only the selected tab should be in the tab sequence',
+    suggestion: 'Set tabindex="-1" on unselected tabs and move focus between tabs with arrow keys',
+  },
+  {
+    id: 'tabs-controls-panel',
+    description: 'Each tab must control a tabpanel',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.tabs.every(tab =>
+        getReferencedElements(tab, 'aria-controls').some(
+          el => getRole(el) === 'tabpanel'
+        )
+      )
+    },
+    message: 'Tab does not reference a tabpanel via aria-controls',
+    suggestion: 'Add aria-controls to each tab pointing at the id of its role="tabpanel" element',
+  },
+  {
+    id: 'tabs-panel-labelled',
+    description: 'Tab panels should be labelled by their tab',
+    severity: 'warning',
+    test: (pattern) => {
+      const { tabs, panels } = pattern.relatedElements
+      return panels.every(panel =>
+        getReferencedElements(panel, 'aria-labelledby').some(label =>
+          tabs.includes(label)
+        )
+      )
+    },
+    message: 'Tab panel is not labelled by its tab',
+    suggestion: 'Add aria-labelledby to each tabpanel pointing at the id of its tab',
+  },
+  {
+    id: 'tabs-orientation-valid',
+    description: 'aria-orientation must have a valid value',
+    severity: 'error',
+    test: (pattern) => {
+      if (!pattern.metadata.hasExplicitOrientation) return true
+      return standards.ariaAttrs['aria-orientation'].values.includes(
+        pattern.metadata.orientation
+      )
+    },
+    message: 'Tablist has an invalid aria-orientation value',
+    suggestion: 'Use aria-orientation="horizontal" or aria-orientation="vertical"',
+  },
+  {
+    id: 'tabs-orientation-consistent',
+    description: 'Tabs should not override the tablist orientation',
+    severity: 'warning',
+    test: (pattern) => {
+      return pattern.relatedElements.tabs.every(tab => {
+        const orientation = tab.getAttribute('aria-orientation')
+        return orientation === null || orientation === pattern.metadata.orientation
+      })
+    },
+    message: 'Tab declares an aria-orientation that conflicts with its tablist',
+    suggestion: 'Set aria-orientation on the tablist only',
+  },
+]
+
+/**
+ * Validates tabs patterns against APG rules
+ */
+export class TabsValidator {
+  /**
+   * Validate a tabs pattern
+   */
+  validate(pattern: TabsPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of TABS_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
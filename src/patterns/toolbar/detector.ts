@@ -0,0 +1,73 @@
+import type { ToolbarPattern } from './types'
+import { isFocusable, isTabbable } from '../../common/aria'
+import { MenuButtonDetector } from '../menu-button/detector'
+import { RadioGroupDetector } from '../radiogroup/detector'
+
+/**
+ * Detects toolbar patterns in the document
+ */
+export class ToolbarDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all toolbar patterns
+   */
+  detectAll(): ToolbarPattern[] {
+    // Level 1: Explicit role="toolbar"
+    const toolbars = Array.from(this.document.querySelectorAll('[role="toolbar"]'))
+    if (toolbars.length === 0) return []
+
+    // Nested controls are detected once and assigned to their toolbar
+    const nestedPatterns = [
+      ...new MenuButtonDetector(this.document).detectAll(),
+      ...new RadioGroupDetector(this.document).detectAll(),
+    ]
+
+    return toolbars.map(toolbar =>
+      this.createToolbarPattern(
+        toolbar,
+        toolbars.length,
+        nestedPatterns.filter(nested => toolbar.contains(nested.element))
+      )
+    )
+  }
+
+  /**
+   * Create a toolbar pattern object
+   */
+  private createToolbarPattern(
+    toolbar: Element,
+    toolbarCount: number,
+    nestedPatterns: ToolbarPattern['metadata']['nestedPatterns']
+  ): ToolbarPattern {
+    const controls = this.findControls(toolbar)
+    const orientation = toolbar.getAttribute('aria-orientation')
+
+    return {
+      type: 'toolbar',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element: toolbar,
+      relatedElements: {
+        controls,
+        tabbableControls: controls.filter(control => isTabbable(control)),
+      },
+      metadata: {
+        orientation: orientation || 'horizontal',
+        toolbarCount,
+        nestedPatterns,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find the focusable controls of a toolbar
+   * Items of popup menus opened from the toolbar are not toolbar controls
+   */
+  private findControls(toolbar: Element): Element[] {
+    return Array.from(toolbar.querySelectorAll('*')).filter(
+      el => isFocusable(el) && !el.closest('[role="menu"]')
+    )
+  }
+}
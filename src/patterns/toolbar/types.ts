@@ -0,0 +1,42 @@
+import type { Pattern } from '../../core/types'
+import type { MenuButtonPattern } from '../menu-button/types'
+import type { RadioGroupPattern } from '../radiogroup/types'
+
+/**
+ * Toolbar-specific pattern with related elements
+ */
+export interface ToolbarPattern extends Pattern {
+  type: 'toolbar'
+  relatedElements: {
+    /** Focusable controls inside the toolbar */
+    controls: Element[]
+    /** Controls in the tab sequence */
+    tabbableControls: Element[]
+  }
+  metadata: {
+    /** Orientation of the toolbar (defaults to horizontal) */
+    orientation: string
+    /** Number of toolbars on the page */
+    toolbarCount: number
+    /** Menu buttons and radio groups nested in the toolbar */
+    nestedPatterns: Array<MenuButtonPattern | RadioGroupPattern>
+  }
+}
+
+/**
+ * Toolbar validation rule
+ */
+export interface ToolbarRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: ToolbarPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,99 @@
+import type { ToolbarPattern, ToolbarRule } from './types'
+import type { Issue } from '../../core/types'
+import standards from '../../standards'
+import { hasAccessibleName } from '../../common/aria'
+import { MenuButtonValidator } from '../menu-button/validator'
+import { RadioGroupValidator } from '../radiogroup/validator'
+
+const menuButtonValidator = new MenuButtonValidator()
+const radioGroupValidator = new RadioGroupValidator()
+
+/**
+ * APG Toolbar Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/toolbar/
+ */
+const TOOLBAR_RULES: ToolbarRule[] = [
+  {
+    id: 'toolbar-label',
+    description: 'Toolbar must be labelled when the page has more than one',
+    severity: 'error',
+    test: (pattern) => pattern.metadata.toolbarCount <= 1 || hasAccessibleName(pattern.element),
+    message: 'Toolbar has no label but is one of several toolbars on the page',
+    suggestion: 'Add aria-label or aria-labelledby to distinguish the toolbars',
+  },
+  {
+    id: 'toolbar-has-controls',
+    description: 'Toolbar must contain more than one control',
+    severity: 'warning',
+    test: (pattern) => pattern.relatedElements.controls.length > 1,
+    message: 'Toolbar contains fewer than two controls',
+    suggestion: 'Use role="toolbar" only to group two or more controls',
+  },
+  {
+    id: 'toolbar-single-tab-stop',
+    description: 'Only one toolbar control should be in the tab sequence',
+    severity: 'error',
+    test: (pattern) => {
+      const { controls, tabbableControls } = pattern.relatedElements
+      return controls.length === 0 || tabbableControls.length === 1
+    },
+    message: 'Toolbar does not use roving tabindex',
+    suggestion: 'Give one control tabindex="0" and the others tabindex="-1", then move focus with the arrow keys',
+  },
+  {
+    id: 'toolbar-orientation-valid',
+    description: 'aria-orientation must have a valid value',
+    severity: 'error',
+    test: (pattern) => {
+      return standards.ariaAttrs['aria-orientation'].values.includes(
+        pattern.metadata.orientation
+      )
+    },
+    message: 'Toolbar has an invalid aria-orientation value',
+    suggestion: 'Use aria-orientation="horizontal" or "vertical"',
+  },
+  {
+    id: 'toolbar-nested-controls',
+    description: 'Menu buttons and radio groups inside the toolbar must be valid',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.metadata.nestedPatterns.every(nested => {
+        const issues = nested.type === 'menu-button'
+          ? menuButtonValidator.validate(nested)
+          : radioGroupValidator.validate(nested)
+
+        return issues.every(issue => issue.severity !== 'error')
+      })
+    },
+    message: 'Toolbar contains a menu button or radio group with errors',
+    suggestion: 'Analyze the menu-button and radiogroup patterns for details',
+  },
+]
+
+/**
+ * Validates toolbar patterns against APG rules
+ */
+export class ToolbarValidator {
+  /**
+   * Validate a toolbar pattern
+   */
+  validate(pattern: ToolbarPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of TOOLBAR_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,92 @@
+import type { TooltipPattern } from './types'
+import { getFocusableElements, getReferencedElements } from '../../common/dom'
+
+/**
+ * Detects tooltip patterns in the document
+ */
+export class TooltipDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all tooltip patterns
+   */
+  detectAll(): TooltipPattern[] {
+    const patterns: TooltipPattern[] = []
+
+    // Level 1: Explicit ARIA roles
+    patterns.push(...this.detectExplicitTooltips())
+
+    // Level 2: Controls with a native title tooltip
+    patterns.push(...this.detectTitleTooltips())
+
+    return patterns
+  }
+
+  /**
+   * Detect elements with role="tooltip"
+   */
+  private detectExplicitTooltips(): TooltipPattern[] {
+    const elements = this.document.querySelectorAll('[role="tooltip"]')
+
+    return Array.from(elements).map(tooltip =>
+      this.createTooltipPattern(
+        tooltip,
+        tooltip,
+        this.findOwners(tooltip),
+        'explicit-role',
+        'high'
+      )
+    )
+  }
+
+  /**
+   * Detect focusable controls that carry a title attribute
+   */
+  private detectTitleTooltips(): TooltipPattern[] {
+    if (!this.document.body) return []
+
+    return getFocusableElements(this.document.body)
+      .filter(control => !!control.getAttribute('title')?.trim())
+      .map(control =>
+        this.createTooltipPattern(control, null, [control], 'native-element', 'medium')
+      )
+  }
+
+  /**
+   * Create a tooltip pattern object
+   */
+  private createTooltipPattern(
+    element: Element,
+    tooltip: Element | null,
+    owners: Element[],
+    detectionMethod: TooltipPattern['detectionMethod'],
+    confidence: TooltipPattern['confidence']
+  ): TooltipPattern {
+    return {
+      type: 'tooltip',
+      confidence,
+      detectionMethod,
+      element,
+      relatedElements: {
+        tooltip,
+        owners,
+        focusableElements: tooltip ? getFocusableElements(tooltip) : [],
+      },
+      metadata: {
+        isTitleAttribute: tooltip === null,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+
+  /**
+   * Find elements that reference the tooltip via aria-describedby
+   */
+  private findOwners(tooltip: Element): Element[] {
+    if (!tooltip.id) return []
+
+    return Array.from(this.document.querySelectorAll('[aria-describedby]')).filter(
+      el => getReferencedElements(el, 'aria-describedby').includes(tooltip)
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Tooltip-specific pattern with related elements
+ */
+export interface TooltipPattern extends Pattern {
+  type: 'tooltip'
+  relatedElements: {
+    /** Element with role="tooltip" (null for title attribute tooltips) */
+    tooltip: Element | null
+    /** Elements described by the tooltip */
+    owners: Element[]
+    /** Focusable elements inside the tooltip */
+    focusableElements: Element[]
+  }
+  metadata: {
+    /** Whether the tooltip comes from a title attribute */
+    isTitleAttribute: boolean
+  }
+}
+
+/**
+ * Tooltip validation rule
+ */
+export interface TooltipRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: TooltipPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,79 @@
+import type { TooltipPattern, TooltipRule } from './types'
+import type { Issue } from '../../core/types'
+import { getAccessibleName, isFocusable } from '../../common/aria'
+
+/**
+ * APG Tooltip Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/tooltip/
+ */
+const TOOLTIP_RULES: TooltipRule[] = [
+  {
+    id: 'tooltip-referenced',
+    description: 'Tooltip must describe an element',
+    severity: 'error',
+    test: (pattern) => {
+      if (pattern.metadata.isTitleAttribute) return true
+      return pattern.relatedElements.owners.length > 0
+    },
+    message: 'Tooltip is not referenced by any element via aria-describedby',
+    suggestion: 'Add aria-describedby pointing at the tooltip id to the element it describes',
+  },
+  {
+    id: 'tooltip-owner-focusable',
+    description: 'Tooltip owners must be focusable',
+    severity: 'error',
+    test: (pattern) => {
+      if (pattern.metadata.isTitleAttribute) return true
+      return pattern.relatedElements.owners.every(owner => isFocusable(owner))
+    },
+    message: 'Tooltip is attached to an element that cannot receive focus, so it is only available on hover',
+    suggestion: 'Attach the tooltip to a focusable element, or add tabindex="0" to its owner',
+  },
+  {
+    id: 'tooltip-focusable-content',
+    description: 'Tooltips must not contain focusable elements',
+    severity: 'warning',
+    test: (pattern) => pattern.relatedElements.focusableElements.length === 0,
+    message: 'Tooltip contains focusable elements that keyboard users cannot reach',
+    suggestion: 'Move interactive content into a non-modal dialog or disclosure instead of a tooltip',
+  },
+  {
+    id: 'tooltip-title-only-name',
+    description: 'The title attribute should not be the only accessible name',
+    severity: 'warning',
+    test: (pattern) => {
+      if (!pattern.metadata.isTitleAttribute) return true
+      return getAccessibleName(pattern.element, { includeTitle: false }).length > 0
+    },
+    message: 'Control relies on its title attribute as its only accessible name',
+    suggestion: 'Add visible text, a <label>, or aria-label to the control',
+  },
+]
+
+/**
+ * Validates tooltip patterns against APG rules
+ */
+export class TooltipValidator {
+  /**
+   * Validate a tooltip pattern
+   */
+  validate(pattern: TooltipPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of TOOLTIP_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
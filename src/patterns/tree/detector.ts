@@ -0,0 +1,68 @@
+import type { TreeItemPosition, TreePattern } from './types'
+import { getOwnedElements, getRole } from '../../common/aria'
+
+/**
+ * Detects tree view patterns in the document
+ */
+export class TreeDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all tree patterns
+   */
+  detectAll(): TreePattern[] {
+    const elements = this.document.querySelectorAll('[role="tree"]')
+
+    return Array.from(elements).map(element => this.createTreePattern(element))
+  }
+
+  /**
+   * Create a tree pattern object
+   */
+  private createTreePattern(tree: Element): TreePattern {
+    const items: Element[] = []
+    const positions: TreeItemPosition[] = []
+    const parentItems: Element[] = []
+    const groups: Element[] = []
+
+    // Walk the tree depth-first so items stay in document order
+    const walk = (container: Element, level: number) => {
+      const siblings = getOwnedElements(container).filter(
+        el => getRole(el) === 'treeitem'
+      )
+
+      siblings.forEach((item, index) => {
+        items.push(item)
+        positions.push({ level, posinset: index + 1, setsize: siblings.length })
+
+        const childGroups = getOwnedElements(item).filter(el => getRole(el) === 'group')
+        if (childGroups.length > 0) {
+          parentItems.push(item)
+          groups.push(...childGroups)
+        }
+
+        for (const group of childGroups) {
+          walk(group, level + 1)
+        }
+      })
+    }
+
+    walk(tree, 1)
+
+    return {
+      type: 'tree',
+      confidence: 'high',
+      detectionMethod: 'explicit-role',
+      element: tree,
+      relatedElements: {
+        items,
+        parentItems,
+        groups,
+      },
+      metadata: {
+        positions,
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Position of a treeitem derived from the DOM structure
+ */
+export interface TreeItemPosition {
+  /** Nesting level, starting at 1 */
+  level: number
+  /** Position within its set of siblings, starting at 1 */
+  posinset: number
+  /** Number of siblings in its set */
+  setsize: number
+}
+
+/**
+ * Tree-specific pattern with related elements
+ */
+export interface TreePattern extends Pattern {
+  type: 'tree'
+  relatedElements: {
+    /** All treeitems in the tree, in document order */
+    items: Element[]
+    /** Treeitems that own a group of child items */
+    parentItems: Element[]
+    /** Groups nested inside treeitems */
+    groups: Element[]
+  }
+  metadata: {
+    /** Expected position of each item, aligned with relatedElements.items */
+    positions: TreeItemPosition[]
+  }
+}
+
+/**
+ * Tree validation rule
+ */
+export interface TreeRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: TreePattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
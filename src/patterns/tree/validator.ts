@@ -0,0 +1,131 @@
+import type { TreePattern, TreeRule } from './types'
+import type { Issue } from '../../core/types'
+import { getAriaLevel, isTabbable } from '../../common/aria'
+
+/**
+ * Check an optional integer attribute against its expected value
+ */
+function matchesIfPresent(element: Element, attribute: string, expected: number): boolean {
+  const value = element.getAttribute(attribute)
+  if (value === null) return true
+
+  return parseInt(value, 10) === expected
+}
+
+/**
+ * APG Tree View Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/treeview/
+ */
+const TREE_RULES: TreeRule[] = [
+  {
+    id: 'tree-has-items',
+    description: 'Tree must contain treeitems',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.items.length > 0,
+    message: 'Tree contains no elements with role="treeitem"',
+    suggestion: 'Add role="treeitem" to each node and role="group" to each nested list',
+  },
+  {
+    id: 'tree-level',
+    description: 'aria-level must match the nesting depth',
+    severity: 'error',
+    test: (pattern) => {
+      const { positions } = pattern.metadata
+
+      return pattern.relatedElements.items.every((item, index) => {
+        if (!item.hasAttribute('aria-level')) return true
+        return getAriaLevel(item) === positions[index].level
+      })
+    },
+    message: 'Treeitem aria-level does not match its nesting depth in the DOM',
+    suggestion: 'Set aria-level to 1 for root items and increase it by one for each nested group',
+  },
+  {
+    id: 'tree-setsize-posinset',
+    description: 'aria-setsize and aria-posinset must match the sibling set',
+    severity: 'error',
+    test: (pattern) => {
+      const { positions } = pattern.metadata
+
+      return pattern.relatedElements.items.every((item, index) =>
+        matchesIfPresent(item, 'aria-posinset', positions[index].posinset) &&
+        matchesIfPresent(item, 'aria-setsize', positions[index].setsize)
+      )
+    },
+    message: 'Treeitem aria-setsize or aria-posinset does not match its siblings in the DOM',
+    suggestion: 'Set aria-setsize to the number of siblings and aria-posinset to the 1-based position, or remove both',
+  },
+  {
+    id: 'tree-parent-expanded',
+    description: 'Parent nodes must have aria-expanded',
+    severity: 'error',
+    test: (pattern) => {
+      return pattern.relatedElements.parentItems.every(item =>
+        item.hasAttribute('aria-expanded')
+      )
+    },
+    message: 'Treeitem with child nodes is missing aria-expanded',
+    suggestion: 'Add aria-expanded="false" to closed parent nodes and "true" to open ones',
+  },
+  {
+    id: 'tree-leaf-expanded',
+    description: 'Expanded nodes must have child nodes',
+    severity: 'error',
+    test: (pattern) => {
+      const { items, parentItems } = pattern.relatedElements
+
+      // Collapsed parents may load their children on expand, so only "true" is checked
+      return items
+        .filter(item => !parentItems.includes(item))
+        .every(item => item.getAttribute('aria-expanded') !== 'true')
+    },
+    message: 'Treeitem without child nodes has aria-expanded="true"',
+    suggestion: 'Render the child group when the node is expanded, or remove aria-expanded from end nodes',
+  },
+  {
+    id: 'tree-single-tab-stop',
+    description: 'Exactly one treeitem should be in the tab sequence',
+    severity: 'error',
+    test: (pattern) => {
+      const { element, relatedElements: { items } } = pattern
+      if (items.length === 0) return true
+
+      // Focus may stay on the tree itself with aria-activedescendant
+      if (element.hasAttribute('aria-activedescendant') && isTabbable(element)) {
+        return true
+      }
+
+      return items.filter(item => isTabbable(item)).length === 1
+    },
+    message: 'Tree must have exactly one treeitem in the tab sequence',
+    suggestion: 'Give the focused treeitem tabindex="0" and all others tabindex="-1", or use aria-activedescendant on the tree',
+  },
+]
+
+/**
+ * Validates tree patterns against APG rules
+ */
+export class TreeValidator {
+  /**
+   * Validate a tree pattern
+   */
+  validate(pattern: TreePattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of TREE_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,60 @@
+import type { WindowSplitterPattern } from './types'
+import { getReferencedElements } from '../../common/dom'
+import { getAccessibleName, getRangeValue, isFocusable } from '../../common/aria'
+
+/**
+ * Detects window splitter patterns in the document
+ */
+export class WindowSplitterDetector {
+  constructor(private document: Document) {}
+
+  /**
+   * Detect all window splitter patterns
+   */
+  detectAll(): WindowSplitterPattern[] {
+    const separators = Array.from(this.document.querySelectorAll('[role="separator"]'))
+    const patterns: WindowSplitterPattern[] = []
+
+    for (const separator of separators) {
+      // Level 1: Focusable separators are window splitters
+      if (isFocusable(separator)) {
+        patterns.push(this.createWindowSplitterPattern(separator, 'high'))
+        continue
+      }
+
+      // Level 2: Separators with splitter attributes that cannot be focused
+      if (separator.hasAttribute('aria-valuenow') || separator.hasAttribute('aria-controls')) {
+        patterns.push(this.createWindowSplitterPattern(separator, 'medium'))
+      }
+    }
+
+    return patterns
+  }
+
+  /**
+   * Create a window splitter pattern object
+   */
+  private createWindowSplitterPattern(
+    separator: Element,
+    confidence: WindowSplitterPattern['confidence']
+  ): WindowSplitterPattern {
+    const value = getRangeValue(separator)
+
+    return {
+      type: 'window-splitter',
+      confidence,
+      detectionMethod: 'explicit-role',
+      element: separator,
+      relatedElements: {
+        primaryPane: getReferencedElements(separator, 'aria-controls')[0] || null,
+      },
+      metadata: {
+        valueNow: value.now,
+        valueMin: value.min,
+        valueMax: value.max,
+        name: getAccessibleName(separator),
+      },
+      issues: [], // Populated by validator
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { Pattern } from '../../core/types'
+
+/**
+ * Window splitter-specific pattern with related elements
+ */
+export interface WindowSplitterPattern extends Pattern {
+  type: 'window-splitter'
+  relatedElements: {
+    /** Primary pane referenced by aria-controls (null if missing) */
+    primaryPane: Element | null
+  }
+  metadata: {
+    /** Current value (null if missing) */
+    valueNow: number | null
+    /** Minimum value (null if missing) */
+    valueMin: number | null
+    /** Maximum value (null if missing) */
+    valueMax: number | null
+    /** Computed accessible name of the splitter */
+    name: string
+  }
+}
+
+/**
+ * Window splitter validation rule
+ */
+export interface WindowSplitterRule {
+  /** Unique rule ID */
+  id: string
+  /** Human-readable description */
+  description: string
+  /** Severity if rule fails */
+  severity: 'error' | 'warning' | 'info'
+  /** Test function */
+  test: (pattern: WindowSplitterPattern) => boolean
+  /** Message when rule fails */
+  message: string
+  /** Optional suggestion for fixing */
+  suggestion?: string
+}
@@ -0,0 +1,94 @@
+import type { WindowSplitterPattern, WindowSplitterRule } from './types'
+import type { Issue } from '../../core/types'
+import { getAccessibleName, isTabbable } from '../../common/aria'
+
+/**
+ * APG Window Splitter Pattern Rules
+ * Based on: https://www.w3.org/WAI/ARIA/apg/patterns/windowsplitter/
+ */
+const WINDOW_SPLITTER_RULES: WindowSplitterRule[] = [
+  {
+    id: 'window-splitter-focusable',
+    description: 'Window splitter must be in the tab sequence',
+    severity: 'error',
+    test: (pattern) => isTabbable(pattern.element),
+    message: 'Window splitter cannot be reached with the keyboard',
+    suggestion: 'Add tabindex="0" to the separator',
+  },
+  {
+    id: 'window-splitter-value-required',
+    description: 'Window splitter must have aria-valuenow, aria-valuemin and aria-valuemax',
+    severity: 'error',
+    test: (pattern) => {
+      const { valueNow, valueMin, valueMax } = pattern.metadata
+      return valueNow !== null && valueMin !== null && valueMax !== null
+    },
+    message: 'Window splitter is missing a numeric aria-valuenow, aria-valuemin or aria-valuemax',
+    suggestion: 'Add aria-valuenow with the primary pane size and aria-valuemin/aria-valuemax with its limits',
+  },
+  {
+    id: 'window-splitter-value-range',
+    description: 'aria-valuenow must lie within aria-valuemin and aria-valuemax',
+    severity: 'error',
+    test: (pattern) => {
+      const { valueNow, valueMin, valueMax } = pattern.metadata
+      if (valueNow === null || valueMin === null || valueMax === null) return true
+
+      return valueMin <= valueNow && valueNow <= valueMax
+    },
+    message: 'Window splitter value is outside its minimum and maximum',
+    suggestion: 'Keep aria-valuemin <= aria-valuenow <= aria-valuemax',
+  },
+  {
+    id: 'window-splitter-controls',
+    description: 'Window splitter must reference the primary pane with aria-controls',
+    severity: 'error',
+    test: (pattern) => pattern.relatedElements.primaryPane !== null,
+    message: 'Window splitter does not control a pane',
+    suggestion: 'Add aria-controls with the id of the primary pane',
+  },
+  {
+    id: 'window-splitter-name',
+    description: 'Window splitter name must match the label of the primary pane',
+    severity: 'error',
+    test: (pattern) => {
+      const { name } = pattern.metadata
+      const { primaryPane } = pattern.relatedElements
+      if (!name) return false
+      if (!primaryPane) return true
+
+      const paneName = getAccessibleName(primaryPane).toLowerCase()
+      return paneName !== '' && name.toLowerCase().includes(paneName)
+    },
+    message: 'Window splitter has no name or its name does not match the primary pane',
+    suggestion: 'Label the primary pane and give the separator the same name, e.g. aria-labelledby pointing at the pane heading',
+  },
+]
+
+/**
+ * Validates window splitter patterns against APG rules
+ */
+export class WindowSplitterValidator {
+  /**
+   * Validate a window splitter pattern
+   */
+  validate(pattern: WindowSplitterPattern): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of WINDOW_SPLITTER_RULES) {
+      const passed = rule.test(pattern)
+
+      if (!passed) {
+        issues.push({
+          severity: rule.severity,
+          message: rule.message,
+          suggestion: rule.suggestion,
+          ruleId: rule.id,
+          element: pattern.element,
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -1,5 +1,7 @@
-import type { AnalysisResult, RunnerConfig } from '../core/types'
+import type { AnalysisResult, Pattern, RunnerConfig } from '../core/types'
+import type { DialogPattern } from '../patterns/dialog/types'
 import { Analyzer } from '../core/analyzer'
+import { DialogBehaviorTester } from '../patterns/dialog/behavior'
 
 /**
  * Browser runner that analyzes the current document
@@ -34,6 +36,11 @@ export class BrowserRunner {
       const analyzer = new Analyzer(document, this.config.analyzerConfig)
       const result = analyzer.analyze()
 
+      if (this.config.interactive) {
+        await this.runBehaviorTests(result.patterns)
+        result.summary = this.summarize(result.patterns)
+      }
+
       // Ensure minimum scan duration
       const elapsed = Date.now() - startTime
       if (elapsed < MIN_SCAN_DURATION) {
@@ -78,26 +85,13 @@ export class BrowserRunner {
         element.contains(pattern.element)
       )
 
-      // Recalculate summary
-      let errors = 0
-      let warnings = 0
-      let info = 0
-
-      filteredPatterns.forEach(pattern => {
-        pattern.issues.forEach(issue => {
-          if (issue.severity === 'error') errors++
-          if (issue.severity === 'warning') warnings++
-          if (issue.severity === 'info') info++
-        })
-      })
+      if (this.config.interactive) {
+        await this.runBehaviorTests(filteredPatterns)
+      }
 
+      // Recalculate summary
       return {
-        summary: {
-          patternsFound: filteredPatterns.length,
-          errors,
-          warnings,
-          info,
-        },
+        summary: this.summarize(filteredPatterns),
         patterns: filteredPatterns,
       }
     } finally {
@@ -106,6 +100,53 @@ export class BrowserRunner {
     }
   }
 
+  /**
+   * Interact with detected patterns and add behavior issues to them
+   */
+  private async runBehaviorTests(patterns: Pattern[]): Promise<void> {
+    const tester = new DialogBehaviorTester(document)
+    const includeSuggestions = this.config.analyzerConfig?.includeSuggestions ?? true
+
+    for (const pattern of patterns) {
+      if (pattern.type !== 'dialog') continue
+
+      const issues = await tester.test(pattern as DialogPattern)
+
+      // Remove suggestions if not requested
+      if (!includeSuggestions) {
+        issues.forEach(issue => {
+          delete issue.suggestion
+        })
+      }
+
+      pattern.issues.push(...issues)
+    }
+  }
+
+  /**
+   * Count patterns and issues by severity
+   */
+  private summarize(patterns: Pattern[]): AnalysisResult['summary'] {
+    let errors = 0
+    let warnings = 0
+    let info = 0
+
+    patterns.forEach(pattern => {
+      pattern.issues.forEach(issue => {
+        if (issue.severity === 'error') errors++
+        if (issue.severity === 'warning') warnings++
+        if (issue.severity === 'info') info++
+      })
+    })
+
+    return {
+      patternsFound: patterns.length,
+      errors,
+      warnings,
+      info,
+    }
+  }
+
   private emptyResult(): AnalysisResult {
     return {
       summary: {
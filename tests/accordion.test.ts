@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { AccordionPattern } from '../src/patterns/accordion/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['accordion'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+const WELL_FORMED_ACCORDION = `
+  <div class="accordion">
+    <h3><button id="acc-1" aria-expanded="true" aria-controls="sect-1">Personal</button></h3>
+    <div id="sect-1" role="region" aria-labelledby="acc-1">Name and address</div>
+    <h3><button id="acc-2" aria-expanded="false" aria-controls="sect-2">Billing</button></h3>
+    <div id="sect-2" role="region" aria-labelledby="acc-2" hidden>Card details</div>
+  </div>
+`
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Accordion Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should group accordion headers that share a container', async () => {
+      const result = await analyzeHTML(WELL_FORMED_ACCORDION)
+      const accordion = result.patterns[0] as AccordionPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(accordion.type).toBe('accordion')
+      expect(accordion.relatedElements.buttons).toHaveLength(2)
+      expect(accordion.relatedElements.panels).toHaveLength(2)
+      expect(accordion.metadata.headingLevels).toEqual([3, 3])
+    })
+
+    it('should ignore expandable buttons outside of headings', async () => {
+      const html = `<button aria-expanded="false" aria-controls="more">More</button><div id="more" hidden></div>`
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+  })
+
+  describe('Validation - Heading structure', () => {
+    it('should fail when the heading contains more than the button', async () => {
+      const html = `
+        <div>
+          <h3><button aria-expanded="false" aria-controls="p1">Personal</button> <span>(required)</span></h3>
+          <div id="p1" hidden></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'accordion-button-only-child')).toHaveLength(1)
+    })
+
+    it('should warn when heading levels differ', async () => {
+      const html = `
+        <div>
+          <h3><button aria-expanded="false" aria-controls="p1">One</button></h3>
+          <div id="p1" hidden></div>
+          <div role="heading" aria-level="4"><button aria-expanded="false" aria-controls="p2">Two</button></div>
+          <div id="p2" hidden></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'accordion-heading-level')).toHaveLength(1)
+      expect(issuesFor(result, 'accordion-heading-level')[0].severity).toBe('warning')
+    })
+  })
+
+  describe('Validation - Panels', () => {
+    it('should fail when aria-controls does not resolve', async () => {
+      const html = `
+        <div>
+          <h3><button aria-expanded="false" aria-controls="missing">One</button></h3>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'accordion-controls')).toHaveLength(1)
+    })
+
+    it('should fail when a hidden panel has aria-expanded="true"', async () => {
+      const html = `
+        <div>
+          <h3><button aria-expanded="true" aria-controls="p1">One</button></h3>
+          <div id="p1" hidden></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'accordion-expanded-state')).toHaveLength(1)
+    })
+
+    it('should fail when a region panel is not labelled by its button', async () => {
+      const html = `
+        <div>
+          <h3><button aria-expanded="true" aria-controls="p1">One</button></h3>
+          <div id="p1" role="region" aria-label="Something else"></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'accordion-region-labelled')).toHaveLength(1)
+    })
+  })
+
+  describe('Perfect Accordion', () => {
+    it('should have no issues for a well-formed accordion', async () => {
+      const result = await analyzeHTML(WELL_FORMED_ACCORDION)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+})
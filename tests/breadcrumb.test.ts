@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { BreadcrumbPattern } from '../src/patterns/breadcrumb/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['breadcrumb'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Breadcrumb Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect labelled breadcrumb navigation', async () => {
+      const html = `
+        <nav aria-label="Breadcrumb">
+          <ol>
+            <li><a href="/">Home</a></li>
+            <li><a href="/shop">Shop</a></li>
+            <li><a href="/shop/shoes" aria-current="page">Shoes</a></li>
+          </ol>
+        </nav>
+      `
+
+      const result = await analyzeHTML(html)
+      const breadcrumb = result.patterns[0] as BreadcrumbPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(breadcrumb.type).toBe('breadcrumb')
+      expect(breadcrumb.detectionMethod).toBe('native-element')
+      expect(breadcrumb.relatedElements.links).toHaveLength(3)
+      expect(breadcrumb.issues).toHaveLength(0)
+    })
+
+    it('should detect breadcrumb by class name', async () => {
+      const html = `
+        <div class="breadcrumbs">
+          <ul class="breadcrumb-list">
+            <li><a href="/">Home</a></li>
+            <li>Shoes</li>
+          </ul>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].detectionMethod).toBe('heuristic')
+      expect(result.patterns[0].confidence).toBe('medium')
+    })
+
+    it('should not detect other navigation', async () => {
+      const html = `
+        <nav aria-label="Main"><a href="/">Home</a></nav>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+  })
+
+  describe('Validation', () => {
+    it('should fail when heuristic breadcrumb is not navigation', async () => {
+      const html = `
+        <div class="breadcrumb">
+          <ol><li><a href="/">Home</a></li><li aria-current="page">Shoes</li></ol>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'breadcrumb-navigation')).toHaveLength(1)
+      expect(issuesFor(result, 'breadcrumb-label')).toHaveLength(1)
+    })
+
+    it('should warn when links are not in an ordered list', async () => {
+      const html = `
+        <nav aria-label="Breadcrumb">
+          <ul><li><a href="/">Home</a></li><li aria-current="page">Shoes</li></ul>
+        </nav>
+      `
+
+      const result = await analyzeHTML(html)
+      const issues = issuesFor(result, 'breadcrumb-ordered-list')
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].severity).toBe('warning')
+    })
+
+    it('should fail when the current page is not marked', async () => {
+      const html = `
+        <nav aria-label="Breadcrumb">
+          <ol><li><a href="/">Home</a></li><li><a href="/shoes">Shoes</a></li></ol>
+        </nav>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'breadcrumb-current-page')).toHaveLength(1)
+    })
+  })
+})
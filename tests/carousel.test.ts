@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { CarouselPattern } from '../src/patterns/carousel/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['carousel'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+function carousel(options: { control?: string; live?: string; labels?: string[]; attrs?: string } = {}) {
+  const labels = options.labels ?? ['1 of 3', '2 of 3', '3 of 3']
+  const control = options.control ? `<button>${options.control}</button>` : ''
+  const live = options.live ? `aria-live="${options.live}"` : ''
+
+  return `
+    <section aria-roledescription="carousel" aria-label="Highlights" ${options.attrs ?? ''}>
+      ${control}
+      <div class="slides" ${live}>
+        ${labels.map(label => `<div role="group" aria-roledescription="slide" aria-label="${label}">Slide</div>`).join('')}
+      </div>
+    </section>
+  `
+}
+
+describe('Carousel Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect carousel with slides', async () => {
+      const result = await analyzeHTML(carousel({ live: 'polite' }))
+      const pattern = result.patterns[0] as CarouselPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(pattern.type).toBe('carousel')
+      expect(pattern.relatedElements.slides).toHaveLength(3)
+      expect(pattern.metadata.isAutoplay).toBe(false)
+      expect(pattern.issues).toHaveLength(0)
+    })
+
+    it('should treat a stop button as a rotating carousel', async () => {
+      const result = await analyzeHTML(carousel({ control: 'Stop automatic slide show', live: 'off' }))
+      const pattern = result.patterns[0] as CarouselPattern
+
+      expect(pattern.metadata.isAutoplay).toBe(true)
+      expect(pattern.metadata.isRotating).toBe(true)
+      expect(pattern.issues).toHaveLength(0)
+    })
+
+    it('should report carousels without a region or group role', async () => {
+      const html = `
+        <div aria-roledescription="carousel" aria-label="Highlights">Not a region</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(issuesFor(result, 'carousel-role')).toHaveLength(1)
+    })
+
+    it('should report an unlabeled section carousel', async () => {
+      const html = `
+        <section aria-roledescription="carousel">
+          <div aria-live="polite">
+            <div role="group" aria-roledescription="slide" aria-label="1 of 1">Slide</div>
+          </div>
+        </section>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'carousel-role')).toHaveLength(1)
+      expect(issuesFor(result, 'carousel-label')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Rotation', () => {
+    it('should fail when autoplay carousel has no pause button', async () => {
+      const result = await analyzeHTML(carousel({ live: 'off', attrs: 'data-autoplay="true"' }))
+
+      expect(issuesFor(result, 'carousel-rotation-control')).toHaveLength(1)
+    })
+
+    it('should not treat buttons inside slides as the rotation control', async () => {
+      const html = `
+        <section aria-roledescription="carousel" aria-label="Highlights" data-autoplay="true">
+          <div class="slides" aria-live="off">
+            <div role="group" aria-roledescription="slide" aria-label="1 of 2">
+              <button>Start free trial</button>
+            </div>
+            <div role="group" aria-roledescription="slide" aria-label="2 of 2">
+              <button>Play video</button>
+            </div>
+          </div>
+        </section>
+      `
+
+      const result = await analyzeHTML(html)
+      const pattern = result.patterns[0] as CarouselPattern
+
+      expect(pattern.relatedElements.rotationControl).toBeNull()
+      expect(issuesFor(result, 'carousel-rotation-control')).toHaveLength(1)
+    })
+
+    it('should fail when rotating carousel announces slides', async () => {
+      const result = await analyzeHTML(carousel({ control: 'Pause', live: 'polite' }))
+
+      expect(issuesFor(result, 'carousel-live-region')).toHaveLength(1)
+    })
+
+    it('should fail when stopped carousel has aria-live off', async () => {
+      const result = await analyzeHTML(carousel({ control: 'Start automatic slide show', live: 'off' }))
+
+      expect(issuesFor(result, 'carousel-live-region')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Slides', () => {
+    it('should fail when a slide has no label', async () => {
+      const html = `
+        <section aria-roledescription="carousel" aria-label="Highlights">
+          <div aria-live="polite">
+            <div role="group" aria-roledescription="slide">Slide</div>
+          </div>
+        </section>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'carousel-slide-label')).toHaveLength(1)
+    })
+
+    it('should warn when slide labels do not give the position', async () => {
+      const result = await analyzeHTML(carousel({ live: 'polite', labels: ['Summer sale', 'New arrivals'] }))
+      const issues = issuesFor(result, 'carousel-slide-position')
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].severity).toBe('warning')
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { CheckboxPattern } from '../src/patterns/checkbox/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['checkbox'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Checkbox Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect custom checkbox', async () => {
+      const html = `
+        <div role="checkbox" aria-checked="false" tabindex="0">Subscribe</div>
+      `
+
+      const result = await analyzeHTML(html)
+      const checkbox = result.patterns[0] as CheckboxPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(checkbox.type).toBe('checkbox')
+      expect(checkbox.metadata.checkedState).toBe('false')
+      expect(checkbox.metadata.isGroupController).toBe(false)
+      expect(checkbox.issues).toHaveLength(0)
+    })
+
+    it('should not detect native checkboxes', async () => {
+      const html = `
+        <label><input type="checkbox"> Subscribe</label>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+
+    it('should find checkboxes controlled by a select all checkbox', async () => {
+      const html = `
+        <div role="checkbox" aria-checked="mixed" tabindex="0" aria-controls="a b">All</div>
+        <input type="checkbox" id="a" aria-label="A" checked>
+        <input type="checkbox" id="b" aria-label="B">
+      `
+
+      const result = await analyzeHTML(html)
+      const checkbox = result.patterns[0] as CheckboxPattern
+
+      expect(checkbox.metadata.isGroupController).toBe(true)
+      expect(checkbox.relatedElements.controlledCheckboxes).toHaveLength(2)
+      expect(checkbox.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - State', () => {
+    it('should fail when aria-checked is missing', async () => {
+      const html = `
+        <div role="checkbox" tabindex="0">Subscribe</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'checkbox-checked-required')).toHaveLength(1)
+    })
+
+    it('should fail when aria-checked has an invalid value', async () => {
+      const html = `
+        <div role="checkbox" aria-checked="partial" tabindex="0">Subscribe</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'checkbox-checked-value')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Focus and name', () => {
+    it('should fail when checkbox is not focusable', async () => {
+      const html = `
+        <div role="checkbox" aria-checked="true">Subscribe</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'checkbox-focusable')).toHaveLength(1)
+    })
+
+    it('should fail when checkbox has no accessible name', async () => {
+      const html = `
+        <div role="checkbox" aria-checked="true" tabindex="0"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'checkbox-name')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Mixed state', () => {
+    it('should fail when all controlled checkboxes are checked', async () => {
+      const html = `
+        <div role="checkbox" aria-checked="mixed" tabindex="0" aria-controls="a b">All</div>
+        <div role="checkbox" id="a" aria-checked="true" tabindex="0">A</div>
+        <div role="checkbox" id="b" aria-checked="true" tabindex="0">B</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'checkbox-mixed-state')).toHaveLength(1)
+    })
+
+    it('should fail when no controlled checkbox is checked', async () => {
+      const html = `
+        <div role="checkbox" aria-checked="mixed" tabindex="0" aria-controls="a b">All</div>
+        <input type="checkbox" id="a" aria-label="A">
+        <input type="checkbox" id="b" aria-label="B">
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'checkbox-mixed-state')).toHaveLength(1)
+    })
+
+    it('should allow a standalone mixed checkbox', async () => {
+      const html = `
+        <div role="checkbox" aria-checked="mixed" tabindex="0">Partially applied</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+})
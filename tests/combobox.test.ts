@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { ComboboxPattern } from '../src/patterns/combobox/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['combobox'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+const WELL_FORMED_COMBOBOX = `
+  <label for="city">City</label>
+  <input id="city" type="text" role="combobox" aria-expanded="true"
+         aria-controls="city-list" aria-autocomplete="list" aria-activedescendant="city-2">
+  <ul id="city-list" role="listbox" aria-label="Cities">
+    <li id="city-1" role="option">Amsterdam</li>
+    <li id="city-2" role="option" aria-selected="true">Rotterdam</li>
+  </ul>
+`
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Combobox Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect combobox with explicit role', async () => {
+      const result = await analyzeHTML(WELL_FORMED_COMBOBOX)
+      const combobox = result.patterns[0] as ComboboxPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(combobox.type).toBe('combobox')
+      expect(combobox.detectionMethod).toBe('explicit-role')
+      expect(combobox.relatedElements.popup?.id).toBe('city-list')
+      expect(combobox.relatedElements.activeDescendant?.id).toBe('city-2')
+    })
+
+    it('should detect native single-select elements', async () => {
+      const html = `
+        <label for="size">Size</label>
+        <select id="size"><option>S</option><option>M</option></select>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].detectionMethod).toBe('native-element')
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+
+    it('should not detect multi-select elements', async () => {
+      const result = await analyzeHTML(`<select multiple><option>S</option></select>`)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+  })
+
+  describe('Validation - aria-expanded', () => {
+    it('should fail when aria-expanded is missing', async () => {
+      const html = `
+        <input role="combobox" aria-label="City" aria-controls="list">
+        <ul id="list" role="listbox"></ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'combobox-expanded')).toHaveLength(1)
+    })
+
+    it('should fail when an expanded combobox has no popup', async () => {
+      const html = `<input role="combobox" aria-label="City" aria-expanded="true">`
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'combobox-popup')).toHaveLength(1)
+    })
+
+    it('should allow a collapsed combobox without a rendered popup', async () => {
+      const html = `<input role="combobox" aria-label="City" aria-expanded="false" aria-controls="later">`
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'combobox-popup')).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - aria-autocomplete', () => {
+    it('should fail on an invalid aria-autocomplete value', async () => {
+      const html = `
+        <input role="combobox" aria-label="City" aria-expanded="false" aria-autocomplete="suggest">
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'combobox-autocomplete-value')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - aria-activedescendant', () => {
+    it('should fail when aria-activedescendant points nowhere', async () => {
+      const html = `
+        <input role="combobox" aria-label="City" aria-expanded="true"
+               aria-controls="list" aria-activedescendant="missing">
+        <ul id="list" role="listbox"><li role="option">Amsterdam</li></ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'combobox-active-descendant')).toHaveLength(1)
+    })
+
+    it('should fail when aria-activedescendant points outside the popup', async () => {
+      const html = `
+        <input role="combobox" aria-label="City" aria-expanded="true"
+               aria-controls="list" aria-activedescendant="elsewhere">
+        <ul id="list" role="listbox"><li role="option">Amsterdam</li></ul>
+        <div id="elsewhere" role="option">Utrecht</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'combobox-active-descendant')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Deprecated pattern', () => {
+    it('should warn about the ARIA 1.0 combobox wrapping a textbox', async () => {
+      const html = `
+        <div role="combobox" aria-expanded="false" aria-owns="list">
+          <input type="text" aria-label="City" aria-controls="list">
+        </div>
+        <ul id="list" role="listbox"></ul>
+      `
+
+      const result = await analyzeHTML(html)
+      const combobox = result.patterns[0] as ComboboxPattern
+
+      expect(combobox.metadata.isDeprecatedPattern).toBe(true)
+      expect(issuesFor(result, 'combobox-deprecated-pattern')).toHaveLength(1)
+      expect(issuesFor(result, 'combobox-deprecated-pattern')[0].severity).toBe('warning')
+    })
+  })
+
+  describe('Perfect Combobox', () => {
+    it('should have no issues for a well-formed combobox', async () => {
+      const result = await analyzeHTML(WELL_FORMED_COMBOBOX)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { BrowserRunner } from '../src/runner/browser'
+import { DialogBehaviorTester } from '../src/patterns/dialog/behavior'
+import { DialogDetector } from '../src/patterns/dialog/detector'
+
+interface DialogScript {
+  focusOnOpen?: boolean
+  closeOnEscape?: boolean
+  returnFocus?: boolean
+  trapFocus?: boolean
+  inertOutside?: boolean
+  linkTrigger?: boolean
+}
+
+/**
+ * Render a trigger and a hidden dialog with scripted behavior
+ */
+function renderDialog(script: DialogScript = {}) {
+  const {
+    focusOnOpen = true,
+    closeOnEscape = true,
+    returnFocus = true,
+    trapFocus = true,
+    inertOutside = true,
+    linkTrigger = false,
+  } = script
+  const triggerMarkup = linkTrigger
+    ? '<a id="open" href="/settings" aria-controls="dialog">Open</a>'
+    : '<button id="open" aria-controls="dialog">Open</button>'
+
+  document.body.innerHTML = `
+    <main id="page">
+      ${triggerMarkup}
+    </main>
+    <div id="dialog" role="dialog" aria-label="Settings" aria-modal="true" hidden>
+      <button id="close" aria-label="Close">X</button>
+      <button id="save">Save</button>
+    </div>
+  `
+
+  const page = document.getElementById('page') as HTMLElement
+  const trigger = document.getElementById('open') as HTMLElement
+  const dialog = document.getElementById('dialog') as HTMLElement
+  const close = document.getElementById('close') as HTMLElement
+  const save = document.getElementById('save') as HTMLElement
+
+  const hide = () => {
+    dialog.hidden = true
+    page.removeAttribute('inert')
+    if (returnFocus) trigger.focus()
+  }
+
+  trigger.addEventListener('click', () => {
+    dialog.hidden = false
+    if (inertOutside) page.setAttribute('inert', '')
+    if (focusOnOpen) close.focus()
+  })
+  close.addEventListener('click', hide)
+  dialog.addEventListener('keydown', event => {
+    if (closeOnEscape && event.key === 'Escape') hide()
+
+    if (trapFocus && event.key === 'Tab') {
+      const edge = event.shiftKey ? close : save
+      if (document.activeElement === edge) {
+        event.preventDefault()
+        ;(event.shiftKey ? save : close).focus()
+      }
+    }
+  })
+}
+
+async function testBehavior() {
+  const [pattern] = new DialogDetector(document).detectAll()
+  return new DialogBehaviorTester(document, { timeout: 100 }).test(pattern)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Dialog Behavior Testing', () => {
+  it('should pass for a dialog that follows the keyboard contract', async () => {
+    renderDialog()
+
+    const issues = await testBehavior()
+
+    expect(issues).toHaveLength(0)
+    expect(document.getElementById('dialog')?.hidden).toBe(true)
+  })
+
+  it('should fail when the trigger does not open the dialog', async () => {
+    document.body.innerHTML = `
+      <button aria-controls="dialog">Open</button>
+      <div id="dialog" role="dialog" aria-label="Settings" hidden>
+        <button aria-label="Close">X</button>
+      </div>
+    `
+
+    const issues = await testBehavior()
+
+    expect(issues.map(i => i.ruleId)).toEqual(['dialog-behavior-opens'])
+  })
+
+  it('should fail when focus does not move into the dialog', async () => {
+    renderDialog({ focusOnOpen: false })
+
+    const issues = await testBehavior()
+
+    expect(issues.map(i => i.ruleId)).toContain('dialog-behavior-focus-in')
+  })
+
+  it('should fail when Escape does not close the dialog', async () => {
+    renderDialog({ closeOnEscape: false })
+
+    const issues = await testBehavior()
+
+    expect(issues.map(i => i.ruleId)).toEqual(['dialog-behavior-escape'])
+    // The dialog is closed again so the page is left as it was
+    expect(document.getElementById('dialog')?.hidden).toBe(true)
+  })
+
+  it('should fail when focus does not return to the trigger', async () => {
+    renderDialog({ returnFocus: false })
+
+    const issues = await testBehavior()
+
+    expect(issues.map(i => i.ruleId)).toEqual(['dialog-behavior-return-focus'])
+  })
+
+  it('should fail when Tab and Shift+Tab leave the modal dialog', async () => {
+    renderDialog({ trapFocus: false, inertOutside: false })
+
+    const issues = await testBehavior()
+    const ruleIds = issues.map(i => i.ruleId)
+
+    expect(ruleIds).toContain('dialog-behavior-tab-wrap')
+    expect(ruleIds).toContain('dialog-behavior-shift-tab-wrap')
+    expect(ruleIds).toContain('dialog-outside-inert')
+  })
+
+  it('should fail when focus escapes past the end of the page', async () => {
+    renderDialog({ trapFocus: false })
+
+    const issues = await testBehavior()
+
+    expect(issues.map(i => i.ruleId)).toEqual([
+      'dialog-behavior-tab-wrap',
+      'dialog-behavior-shift-tab-wrap',
+    ])
+  })
+
+  it('should fail when content outside the modal dialog is not inert', async () => {
+    renderDialog({ inertOutside: false })
+
+    const issues = await testBehavior()
+
+    expect(issues.map(i => i.ruleId)).toEqual(['dialog-outside-inert'])
+  })
+
+  it('should check the focus trap of a dialog that is already open', async () => {
+    renderDialog({ trapFocus: false })
+    document.getElementById('dialog')!.hidden = false
+
+    const issues = await testBehavior()
+
+    expect(issues.map(i => i.ruleId)).toEqual([
+      'dialog-behavior-tab-wrap',
+      'dialog-behavior-shift-tab-wrap',
+    ])
+  })
+
+  it('should not check the focus trap of non-modal dialogs', async () => {
+    renderDialog({ trapFocus: false, inertOutside: false })
+    document.getElementById('dialog')!.removeAttribute('aria-modal')
+
+    const issues = await testBehavior()
+
+    expect(issues).toHaveLength(0)
+  })
+
+  it('should not follow link triggers to another page', async () => {
+    renderDialog({ linkTrigger: true })
+    const clicks: boolean[] = []
+    document.addEventListener('click', event => clicks.push(event.defaultPrevented), { once: true })
+
+    const issues = await testBehavior()
+
+    expect(clicks).toEqual([true])
+    expect(issues).toHaveLength(0)
+  })
+
+  it('should add behavior issues in BrowserRunner interactive mode', async () => {
+    renderDialog({ returnFocus: false })
+
+    const runner = new BrowserRunner({
+      analyzerConfig: { patterns: ['dialog'] },
+      interactive: true,
+    })
+    const result = await runner.run()
+    const ruleIds = result.patterns[0].issues.map(i => i.ruleId)
+
+    expect(ruleIds).toContain('dialog-behavior-return-focus')
+    expect(result.summary.errors).toBeGreaterThan(0)
+  })
+
+  it('should not interact with the page by default', async () => {
+    renderDialog({ returnFocus: false })
+
+    const runner = new BrowserRunner({ analyzerConfig: { patterns: ['dialog'] } })
+    const result = await runner.run()
+
+    expect(result.patterns[0].issues.map(i => i.ruleId)).not.toContain('dialog-behavior-return-focus')
+  })
+})
@@ -12,7 +12,10 @@ function analyzeHTML(html: string, config?: RunnerConfig) {
   document.body.appendChild(container)
 
   // Run the analyzer on the document
-  const analyzer = new Analyzer(document, config?.analyzerConfig)
+  const analyzer = new Analyzer(document, {
+    patterns: ['dialog'],
+    ...config?.analyzerConfig,
+  })
   const result = analyzer.analyze()
 
   // Cleanup
@@ -350,6 +353,75 @@ describe('Dialog Pattern Detection', () => {
     })
   })
 
+  describe('Validation - Outside Content Inert', () => {
+    function inertIssues(result: Awaited<ReturnType<typeof analyzeHTML>>) {
+      return result.patterns[0].issues.filter(i => i.ruleId === 'dialog-outside-inert')
+    }
+
+    it('should fail when content outside an open modal dialog is reachable', async () => {
+      const html = `
+        <main><a href="/home">Home</a></main>
+        <div role="dialog" aria-label="Test" aria-modal="true">
+          <button aria-label="Close">X</button>
+        </div>
+      `
+
+      const issues = inertIssues(await analyzeHTML(html))
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].severity).toBe('error')
+    })
+
+    it('should pass when outside content is inert or aria-hidden', async () => {
+      const html = `
+        <main inert><a href="/home">Home</a></main>
+        <footer aria-hidden="true">Copyright</footer>
+        <div role="dialog" aria-label="Test" aria-modal="true">
+          <button aria-label="Close">X</button>
+        </div>
+      `
+
+      expect(inertIssues(await analyzeHTML(html))).toHaveLength(0)
+    })
+
+    it('should skip hidden and non-modal dialogs', async () => {
+      const hidden = `
+        <main><a href="/home">Home</a></main>
+        <div role="dialog" aria-label="Test" aria-modal="true" hidden>
+          <button aria-label="Close">X</button>
+        </div>
+      `
+      const nonModal = `
+        <main><a href="/home">Home</a></main>
+        <div role="dialog" aria-label="Test">
+          <button aria-label="Close">X</button>
+        </div>
+      `
+
+      expect(inertIssues(await analyzeHTML(hidden))).toHaveLength(0)
+      expect(inertIssues(await analyzeHTML(nonModal))).toHaveLength(0)
+    })
+
+    it('should skip modal dialogs closed by a stylesheet or state class', async () => {
+      const styled = `
+        <style>.modal { display: none }</style>
+        <main><a href="/home">Home</a></main>
+        <div class="modal" role="dialog" aria-label="Test" aria-modal="true">
+          <button aria-label="Close">X</button>
+        </div>
+      `
+      const stateClass = `
+        <main><a href="/home">Home</a></main>
+        <div class="drawer is-closed" role="dialog" aria-label="Test" aria-modal="true">
+          <button aria-label="Close">X</button>
+        </div>
+      `
+
+      expect(inertIssues(await analyzeHTML(styled))).toHaveLength(0)
+      expect(inertIssues(await analyzeHTML(stateClass))).toHaveLength(0)
+    })
+  })
+
   describe('Related Elements - Triggers', () => {
     it('should find trigger by aria-controls', async () => {
       const html = `
@@ -395,6 +467,113 @@ describe('Dialog Pattern Detection', () => {
     })
   })
 
+  describe('Heuristic Detection', () => {
+    it('should detect div modal with class name and backdrop', async () => {
+      const html = `
+        <div class="modal-backdrop"></div>
+        <div class="modal" style="position: fixed; z-index: 1050">
+          <h2>Newsletter</h2>
+          <button class="close">Close</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const dialog = result.patterns[0]
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(dialog.detectionMethod).toBe('heuristic')
+      expect(dialog.confidence).toBe('medium')
+      expect(dialog.issues.filter(i => i.ruleId === 'dialog-role')).toHaveLength(1)
+      expect(dialog.issues.every(i => i.severity !== 'error')).toBe(true)
+    })
+
+    it('should report weaker matches with low confidence', async () => {
+      const html = `
+        <div class="overlay"></div>
+        <div class="c-popup">
+          <p>Subscribe</p>
+          <button>Close</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].confidence).toBe('low')
+    })
+
+    it('should detect modals on a scroll-locked page without a backdrop', async () => {
+      const html = `
+        <div class="modal" style="position: fixed">
+          <p>Subscribe</p>
+          <button>Close</button>
+        </div>
+      `
+
+      document.body.style.overflow = 'hidden'
+      const result = await analyzeHTML(html)
+      document.body.style.overflow = ''
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].detectionMethod).toBe('heuristic')
+    })
+
+    it('should not detect fixed banners without a backdrop', async () => {
+      const html = `
+        <div class="cookie-popup" style="position: fixed; z-index: 9999">
+          <p>We use cookies</p>
+          <button>Accept</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+
+    it('should not detect elements with a single signal', async () => {
+      const html = `
+        <div class="modal"><p>Static content</p></div>
+        <div style="position: fixed; z-index: 1000"><p>Toolbar</p></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+
+    it('should not duplicate explicit dialogs', async () => {
+      const html = `
+        <div class="overlay"></div>
+        <div class="modal" style="position: fixed">
+          <div role="dialog" aria-label="Test" hidden>
+            <button aria-label="Close">X</button>
+          </div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].detectionMethod).toBe('explicit-role')
+    })
+
+    it('should be excluded by minConfidence high', async () => {
+      const html = `
+        <div class="modal-backdrop"></div>
+        <div class="modal" style="position: fixed; z-index: 1050">
+          <button class="close">Close</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html, {
+        analyzerConfig: { minConfidence: 'high' },
+      })
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+  })
+
   describe('Configuration', () => {
     it('should respect minConfidence filter', async () => {
       const html = `
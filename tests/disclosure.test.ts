@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { DisclosurePattern } from '../src/patterns/disclosure/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['disclosure'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Disclosure Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should pair a button with the element it controls', async () => {
+      const html = `
+        <button aria-expanded="false" aria-controls="details">Show details</button>
+        <div id="details" hidden>More information</div>
+      `
+
+      const result = await analyzeHTML(html)
+      const disclosure = result.patterns[0] as DisclosurePattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(disclosure.type).toBe('disclosure')
+      expect(disclosure.relatedElements.target?.id).toBe('details')
+      expect(disclosure.issues).toHaveLength(0)
+    })
+
+    it('should detect native details elements', async () => {
+      const html = `<details><summary>More</summary><p>Hidden text</p></details>`
+
+      const result = await analyzeHTML(html)
+      const disclosure = result.patterns[0] as DisclosurePattern
+
+      expect(disclosure.detectionMethod).toBe('native-element')
+      expect(disclosure.relatedElements.controller?.tagName.toLowerCase()).toBe('summary')
+      expect(disclosure.issues).toHaveLength(0)
+    })
+
+    it('should skip accordion headers and menu buttons', async () => {
+      const html = `
+        <h3><button aria-expanded="false" aria-controls="panel">Section</button></h3>
+        <div id="panel" hidden></div>
+        <button aria-haspopup="menu" aria-expanded="false" aria-controls="menu">Actions</button>
+        <ul id="menu" role="menu" hidden></ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+  })
+
+  describe('Validation - Target', () => {
+    it('should fail when aria-controls does not resolve', async () => {
+      const html = `<button aria-expanded="false" aria-controls="missing">Show</button>`
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'disclosure-controls')).toHaveLength(1)
+    })
+
+    it('should fail when aria-expanded="false" but the target is visible', async () => {
+      const html = `
+        <button aria-expanded="false" aria-controls="details">Show details</button>
+        <div id="details">More information</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'disclosure-expanded-state')).toHaveLength(1)
+    })
+
+    it('should treat content hidden by a stylesheet as collapsed', async () => {
+      const html = `
+        <style>.collapse:not(.show) { display: none }</style>
+        <button aria-expanded="false" aria-controls="more">More</button>
+        <div id="more" class="collapse">More information</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'disclosure-expanded-state')).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Controller', () => {
+    it('should warn when a div controller has no button role or tabindex', async () => {
+      const html = `
+        <div aria-expanded="true" aria-controls="details">Show details</div>
+        <div id="details">More information</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'disclosure-controller-semantics')).toHaveLength(1)
+      expect(issuesFor(result, 'disclosure-controller-semantics')[0].severity).toBe('warning')
+    })
+
+    it('should pass for a span with role="button" and tabindex', async () => {
+      const html = `
+        <span role="button" tabindex="0" aria-expanded="true" aria-controls="details">Show details</span>
+        <div id="details">More information</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'disclosure-controller-semantics')).toHaveLength(0)
+    })
+
+    it('should warn about redundant ARIA on details and summary', async () => {
+      const html = `
+        <details open>
+          <summary role="button" aria-expanded="true">More</summary>
+          <p>Text</p>
+        </details>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'disclosure-native-redundant-aria')).toHaveLength(1)
+    })
+  })
+})
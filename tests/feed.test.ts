@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { FeedPattern } from '../src/patterns/feed/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['feed'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Feed Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect feed with articles', async () => {
+      const html = `
+        <div role="feed" aria-label="Activity">
+          <article tabindex="0" aria-labelledby="a1" aria-posinset="1" aria-setsize="-1">
+            <h3 id="a1">Anna commented</h3>
+          </article>
+          <article tabindex="0" aria-labelledby="a2" aria-posinset="2" aria-setsize="-1">
+            <h3 id="a2">Ben liked a post</h3>
+          </article>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const feed = result.patterns[0] as FeedPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(feed.type).toBe('feed')
+      expect(feed.relatedElements.articles).toHaveLength(2)
+      expect(feed.issues).toHaveLength(0)
+    })
+
+    it('should fail when feed has no articles', async () => {
+      const html = `
+        <div role="feed" aria-label="Activity">
+          <div>Item</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-has-articles')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Articles', () => {
+    it('should fail when article is not focusable', async () => {
+      const html = `
+        <div role="feed">
+          <article aria-label="Post" aria-posinset="1" aria-setsize="1"></article>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-article-focusable')).toHaveLength(1)
+    })
+
+    it('should fail when article has no name', async () => {
+      const html = `
+        <div role="feed">
+          <article tabindex="0" aria-posinset="1" aria-setsize="1">Post</article>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-article-name')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Position', () => {
+    it('should fail when aria-posinset is missing', async () => {
+      const html = `
+        <div role="feed">
+          <article tabindex="0" aria-label="Post" aria-setsize="-1"></article>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-position-required')).toHaveLength(1)
+      expect(issuesFor(result, 'feed-setsize-posinset')).toHaveLength(0)
+    })
+
+    it('should check consistency only between articles with valid positions', async () => {
+      const html = `
+        <div role="feed">
+          <article tabindex="0" aria-label="One" aria-posinset="1" aria-setsize="3"></article>
+          <article tabindex="0" aria-label="Two" aria-setsize="3"></article>
+          <article tabindex="0" aria-label="Three" aria-posinset="3" aria-setsize="3"></article>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-position-required')).toHaveLength(1)
+      expect(issuesFor(result, 'feed-setsize-posinset')).toHaveLength(0)
+    })
+
+    it('should fail when aria-setsize differs between articles', async () => {
+      const html = `
+        <div role="feed">
+          <article tabindex="0" aria-label="One" aria-posinset="1" aria-setsize="10"></article>
+          <article tabindex="0" aria-label="Two" aria-posinset="2" aria-setsize="12"></article>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-setsize-posinset')).toHaveLength(1)
+    })
+
+    it('should fail when aria-posinset exceeds aria-setsize', async () => {
+      const html = `
+        <div role="feed">
+          <article tabindex="0" aria-label="One" aria-posinset="3" aria-setsize="2"></article>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-setsize-posinset')).toHaveLength(1)
+    })
+
+    it('should allow unloaded articles before the first one', async () => {
+      const html = `
+        <div role="feed">
+          <article tabindex="0" aria-label="Eleven" aria-posinset="11" aria-setsize="-1"></article>
+          <article tabindex="0" aria-label="Twelve" aria-posinset="12" aria-setsize="-1"></article>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Loading', () => {
+    it('should fail when feed shows a spinner without aria-busy', async () => {
+      const html = `
+        <div role="feed">
+          <article tabindex="0" aria-label="Post" aria-posinset="1" aria-setsize="-1"></article>
+        </div>
+        <div class="spinner" aria-hidden="true"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-busy')).toHaveLength(1)
+    })
+
+    it('should pass when loading feed has aria-busy', async () => {
+      const html = `
+        <div role="feed" aria-busy="true">
+          <article tabindex="0" aria-label="Post" aria-posinset="1" aria-setsize="-1"></article>
+          <div role="progressbar" aria-label="Loading more posts"></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'feed-busy')).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { GridPattern } from '../src/patterns/grid/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['grid'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+const VIRTUALIZED_GRID = `
+  <div role="grid" aria-label="Orders" aria-rowcount="100" aria-colcount="2">
+    <div role="rowgroup">
+      <div role="row" aria-rowindex="1">
+        <span role="columnheader" tabindex="0">Order</span>
+        <span role="columnheader" tabindex="-1">Total</span>
+      </div>
+    </div>
+    <div role="rowgroup">
+      <div role="row" aria-rowindex="41">
+        <span role="gridcell" tabindex="-1">#41</span>
+        <span role="gridcell" tabindex="-1">€12</span>
+      </div>
+      <div role="row" aria-rowindex="42">
+        <span role="gridcell" tabindex="-1">#42</span>
+        <span role="gridcell" tabindex="-1">€30</span>
+      </div>
+    </div>
+  </div>
+`
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Grid Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect grid with rowgroups, rows and cells', async () => {
+      const result = await analyzeHTML(VIRTUALIZED_GRID)
+      const grid = result.patterns[0] as GridPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(grid.type).toBe('grid')
+      expect(grid.relatedElements.rowgroups).toHaveLength(2)
+      expect(grid.relatedElements.rows).toHaveLength(3)
+      expect(grid.relatedElements.cells).toHaveLength(6)
+    })
+
+    it('should detect treegrid', async () => {
+      const html = `
+        <table role="treegrid" aria-label="Mail">
+          <tr aria-level="1" aria-expanded="false"><td tabindex="0">Inbox</td></tr>
+        </table>
+      `
+
+      const result = await analyzeHTML(html)
+      const grid = result.patterns[0] as GridPattern
+
+      expect(grid.metadata.isTreegrid).toBe(true)
+      expect(grid.relatedElements.rows).toHaveLength(1)
+      expect(grid.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Ownership', () => {
+    it('should fail when cells are placed directly in the grid', async () => {
+      const html = `
+        <div role="grid" aria-label="Orders">
+          <span role="gridcell" tabindex="0">#1</span>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'grid-ownership')).toHaveLength(1)
+      expect(issuesFor(result, 'grid-has-rows')).toHaveLength(1)
+    })
+
+    it('should fail when a row contains non-cell children', async () => {
+      const html = `
+        <div role="grid" aria-label="Orders">
+          <div role="row"><button>Edit</button></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'grid-ownership')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Counts and indexes', () => {
+    it('should fail on an index below the minimum value', async () => {
+      const html = `
+        <div role="grid" aria-label="Orders">
+          <div role="row" aria-rowindex="0"><span role="gridcell" tabindex="0">#1</span></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'grid-count-values')).toHaveLength(1)
+    })
+
+    it('should fail when a row index exceeds aria-rowcount', async () => {
+      const html = `
+        <div role="grid" aria-label="Orders" aria-rowcount="10">
+          <div role="row" aria-rowindex="11"><span role="gridcell" tabindex="0">#11</span></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'grid-index-range')).toHaveLength(1)
+    })
+
+    it('should allow aria-rowcount="-1" for unknown sizes', async () => {
+      const html = `
+        <div role="grid" aria-label="Orders" aria-rowcount="-1">
+          <div role="row" aria-rowindex="500"><span role="gridcell" tabindex="0">#500</span></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+
+    it('should fail when row indexes are out of order', async () => {
+      const html = `
+        <div role="grid" aria-label="Orders" aria-rowcount="100">
+          <div role="row" aria-rowindex="5"><span role="gridcell" tabindex="0">#5</span></div>
+          <div role="row" aria-rowindex="5"><span role="gridcell" tabindex="-1">#6</span></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'grid-rowindex-order')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Tab sequence', () => {
+    it('should fail when several cells are tabbable', async () => {
+      const html = `
+        <div role="grid" aria-label="Orders">
+          <div role="row">
+            <span role="gridcell" tabindex="0">#1</span>
+            <span role="gridcell"><button>Edit</button></span>
+          </div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'grid-single-tab-stop')).toHaveLength(1)
+    })
+  })
+
+  describe('Perfect Grid', () => {
+    it('should have no issues for a well-formed virtualized grid', async () => {
+      const result = await analyzeHTML(VIRTUALIZED_GRID)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+})
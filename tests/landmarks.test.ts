@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { LandmarksPattern } from '../src/patterns/landmarks/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['landmarks'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Landmarks Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect page landmarks', async () => {
+      const html = `
+        <a href="#content">Skip to content</a>
+        <header>Site</header>
+        <nav aria-label="Main">Links</nav>
+        <main id="content">Content</main>
+        <aside>Related</aside>
+        <footer>Copyright</footer>
+      `
+
+      const result = await analyzeHTML(html)
+      const landmarks = result.patterns[0] as LandmarksPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(landmarks.type).toBe('landmarks')
+      expect(landmarks.metadata.roles).toEqual(['banner', 'navigation', 'main', 'complementary', 'contentinfo'])
+      expect(landmarks.issues).toHaveLength(0)
+    })
+
+    it('should report content on pages without landmarks', async () => {
+      const html = `
+        <div>Just content</div>
+      `
+
+      const result = await analyzeHTML(html)
+      const landmarks = result.patterns[0] as LandmarksPattern
+
+      expect(landmarks.relatedElements.landmarks).toHaveLength(0)
+      expect(issuesFor(result, 'landmarks-content-outside')).toHaveLength(1)
+    })
+
+    it('should not report empty pages', async () => {
+      const result = await analyzeHTML('<div></div>')
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+
+    it('should analyze pages with an unlabeled section', async () => {
+      const html = `
+        <main>
+          <section><p>Intro</p></section>
+        </main>
+      `
+
+      const result = await analyzeHTML(html, { analyzerConfig: { patterns: undefined } })
+      const landmarks = result.patterns.find(p => p.type === 'landmarks')
+
+      expect(landmarks?.issues).toHaveLength(0)
+    })
+
+    it('should not treat sectioned headers and footers as landmarks', async () => {
+      const html = `
+        <main>
+          <article><header>Post title</header><footer>Posted today</footer></article>
+        </main>
+      `
+
+      const result = await analyzeHTML(html)
+      const landmarks = result.patterns[0] as LandmarksPattern
+
+      expect(landmarks.metadata.roles).toEqual(['main'])
+    })
+  })
+
+  describe('Validation', () => {
+    it('should fail when page has several main landmarks', async () => {
+      const html = `
+        <main>One</main>
+        <div role="main">Two</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'landmarks-single-main')).toHaveLength(1)
+    })
+
+    it('should fail when duplicate landmarks are not named', async () => {
+      const html = `
+        <nav>Primary</nav>
+        <main>Content</main>
+        <nav>Secondary</nav>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'landmarks-unique-names')).toHaveLength(1)
+    })
+
+    it('should fail when duplicate landmarks share a name', async () => {
+      const html = `
+        <nav aria-label="Menu">Primary</nav>
+        <main>Content</main>
+        <nav aria-label="Menu">Secondary</nav>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'landmarks-unique-names')).toHaveLength(1)
+    })
+
+    it('should warn about content outside landmarks', async () => {
+      const html = `
+        <main>Content</main>
+        <div class="promo">Sign up today</div>
+      `
+
+      const result = await analyzeHTML(html)
+      const landmarks = result.patterns[0] as LandmarksPattern
+
+      expect(issuesFor(result, 'landmarks-content-outside')).toHaveLength(1)
+      expect(landmarks.relatedElements.uncontainedContent[0].className).toBe('promo')
+    })
+  })
+})
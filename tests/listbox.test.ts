@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { ListboxPattern } from '../src/patterns/listbox/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['listbox'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Listbox Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect listbox with explicit role', async () => {
+      const html = `
+        <ul role="listbox" aria-label="Fruit" tabindex="0" aria-activedescendant="apple">
+          <li id="apple" role="option" aria-selected="true">Apple</li>
+          <li role="option">Banana</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+      const listbox = result.patterns[0] as ListboxPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(listbox.type).toBe('listbox')
+      expect(listbox.relatedElements.options).toHaveLength(2)
+      expect(listbox.relatedElements.selectedOptions).toHaveLength(1)
+    })
+
+    it('should detect native multi-select elements', async () => {
+      const html = `
+        <select multiple aria-label="Toppings">
+          <optgroup label="Vegetables">
+            <option>Onion</option>
+            <option selected>Pepper</option>
+          </optgroup>
+          <option selected>Cheese</option>
+        </select>
+      `
+
+      const result = await analyzeHTML(html)
+      const listbox = result.patterns[0] as ListboxPattern
+
+      expect(listbox.detectionMethod).toBe('native-element')
+      expect(listbox.relatedElements.options).toHaveLength(3)
+      expect(listbox.relatedElements.groups).toHaveLength(1)
+      expect(listbox.issues).toHaveLength(0)
+    })
+
+    it('should analyze a listbox inside an unlabeled section', async () => {
+      const html = `
+        <section>
+          <ul role="listbox" aria-label="Fruit" tabindex="0" aria-activedescendant="apple">
+            <li id="apple" role="option" aria-selected="true">Apple</li>
+          </ul>
+        </section>
+      `
+
+      // All patterns, so every element's role is computed
+      const result = await analyzeHTML(html, { analyzerConfig: { patterns: undefined } })
+      const listbox = result.patterns.find(p => p.type === 'listbox')
+
+      expect(listbox?.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Owned children', () => {
+    it('should fail when listbox contains non-option children', async () => {
+      const html = `
+        <ul role="listbox" aria-label="Fruit" tabindex="0" aria-activedescendant="">
+          <li>Apple</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'listbox-invalid-children')).toHaveLength(1)
+    })
+
+    it('should pass for grouped options', async () => {
+      const html = `
+        <div role="listbox" aria-label="Fruit" tabindex="0" aria-activedescendant="">
+          <ul role="group" aria-label="Citrus">
+            <li role="option">Lemon</li>
+          </ul>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'listbox-invalid-children')).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Selection', () => {
+    it('should fail when single-select listbox has several selected options', async () => {
+      const html = `
+        <ul role="listbox" aria-label="Fruit" tabindex="0" aria-activedescendant="">
+          <li role="option" aria-selected="true">Apple</li>
+          <li role="option" aria-selected="true">Banana</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'listbox-selection')).toHaveLength(1)
+    })
+
+    it('should pass when multi-select listbox has several selected options', async () => {
+      const html = `
+        <ul role="listbox" aria-label="Fruit" aria-multiselectable="true" tabindex="0" aria-activedescendant="">
+          <li role="option" aria-selected="true">Apple</li>
+          <li role="option" aria-selected="true">Banana</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'listbox-selection')).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Option names', () => {
+    it('should fail when an option has no accessible name', async () => {
+      const html = `
+        <ul role="listbox" aria-label="Colors" tabindex="0" aria-activedescendant="">
+          <li role="option"><span class="swatch"></span></li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'listbox-option-name')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Focus strategy', () => {
+    it('should fail when listbox has no focus strategy', async () => {
+      const html = `
+        <ul role="listbox" aria-label="Fruit">
+          <li role="option">Apple</li>
+          <li role="option">Banana</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'listbox-focus-strategy')).toHaveLength(1)
+    })
+
+    it('should pass with roving tabindex on the options', async () => {
+      const html = `
+        <ul role="listbox" aria-label="Fruit">
+          <li role="option" tabindex="0">Apple</li>
+          <li role="option" tabindex="-1">Banana</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'listbox-focus-strategy')).toHaveLength(0)
+    })
+
+    it('should skip the focus check for combobox popups', async () => {
+      const html = `
+        <input role="combobox" aria-label="Fruit" aria-expanded="true" aria-controls="fruit">
+        <ul id="fruit" role="listbox" aria-label="Fruit">
+          <li role="option">Apple</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+      const listbox = result.patterns[0] as ListboxPattern
+
+      expect(listbox.metadata.isComboboxPopup).toBe(true)
+      expect(issuesFor(result, 'listbox-focus-strategy')).toHaveLength(0)
+    })
+  })
+})
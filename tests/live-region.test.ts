@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { LiveRegionPattern } from '../src/patterns/live-region/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['live-region'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Live Region Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect live region roles', async () => {
+      const html = `
+        <div role="status"></div>
+        <div role="log"></div>
+        <div role="timer"></div>
+      `
+
+      const result = await analyzeHTML(html)
+      const status = result.patterns[0] as LiveRegionPattern
+
+      expect(result.summary.patternsFound).toBe(3)
+      expect(status.type).toBe('live-region')
+      expect(status.metadata.role).toBe('status')
+      expect(status.metadata.politeness).toBe('polite')
+      expect(status.issues).toHaveLength(0)
+    })
+
+    it('should detect elements with aria-live', async () => {
+      const html = `
+        <div class="toast" aria-live="assertive" aria-atomic="true"></div>
+      `
+
+      const result = await analyzeHTML(html)
+      const region = result.patterns[0] as LiveRegionPattern
+
+      expect(region.metadata.role).toBeNull()
+      expect(region.metadata.politeness).toBe('assertive')
+      expect(region.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Attribute values', () => {
+    it('should fail when aria-live is invalid', async () => {
+      const html = `
+        <div aria-live="loud"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'live-region-live-value')).toHaveLength(1)
+    })
+
+    it('should fail when aria-atomic is invalid', async () => {
+      const html = `
+        <div role="status" aria-atomic="yes"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'live-region-atomic-value')).toHaveLength(1)
+    })
+
+    it('should fail when aria-relevant has an unknown token', async () => {
+      const html = `
+        <div role="log" aria-relevant="additions changes"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'live-region-relevant-value')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Announcements', () => {
+    it('should warn about alerts present in the markup', async () => {
+      const html = `
+        <div role="alert">Your session has expired</div>
+      `
+
+      const result = await analyzeHTML(html)
+      const issues = issuesFor(result, 'live-region-initial-alert')
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].severity).toBe('warning')
+    })
+
+    it('should allow empty alert containers', async () => {
+      const html = `
+        <div role="alert"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+
+    it('should fail when live region is inside aria-hidden', async () => {
+      const html = `
+        <div aria-hidden="true">
+          <div role="status"></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'live-region-hidden')).toHaveLength(1)
+    })
+  })
+})
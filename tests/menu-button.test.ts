@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { MenuButtonPattern } from '../src/patterns/menu-button/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['menu-button'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Menu Button Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect button with aria-haspopup="menu"', async () => {
+      const html = `
+        <button aria-haspopup="menu" aria-expanded="false" aria-controls="actions">Actions</button>
+        <ul role="menu" id="actions" hidden>
+          <li role="menuitem">Copy</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+      const pattern = result.patterns[0] as MenuButtonPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(pattern.type).toBe('menu-button')
+      expect(pattern.detectionMethod).toBe('explicit-role')
+      expect(pattern.relatedElements.popup?.id).toBe('actions')
+    })
+
+    it('should detect button with aria-haspopup="true"', async () => {
+      const html = `
+        <div role="button" tabindex="0" aria-haspopup="true" aria-expanded="false" aria-controls="actions">Actions</div>
+        <ul role="menu" id="actions" hidden>
+          <li role="menuitem">Copy</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(1)
+    })
+
+    it('should resolve the popup through data-target', async () => {
+      const html = `
+        <button aria-haspopup="menu" aria-expanded="false" data-target="#actions">Actions</button>
+        <ul role="menu" id="actions" hidden>
+          <li role="menuitem">Copy</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+      const pattern = result.patterns[0] as MenuButtonPattern
+
+      expect(pattern.relatedElements.popup?.id).toBe('actions')
+    })
+
+    it('should ignore menu items with aria-haspopup', async () => {
+      const html = `
+        <div role="menubar" aria-label="Main">
+          <div role="menuitem" aria-haspopup="menu" aria-expanded="false">File</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+  })
+
+  describe('Validation - Popup linkage', () => {
+    it('should fail when button does not control a menu', async () => {
+      const html = `<button aria-haspopup="menu" aria-expanded="false">Actions</button>`
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'menu-button-controls-menu')).toHaveLength(1)
+    })
+
+    it('should flag a popup menu that no button references', async () => {
+      const html = `
+        <button>Actions</button>
+        <p>Some text</p>
+        <ul role="menu" id="orphan" hidden>
+          <li role="menuitem">Copy</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].detectionMethod).toBe('heuristic')
+      expect(issuesFor(result, 'menu-button-popup-referenced')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - aria-expanded', () => {
+    it('should fail when aria-expanded is missing', async () => {
+      const html = `
+        <button aria-haspopup="menu" aria-controls="actions">Actions</button>
+        <ul role="menu" id="actions" hidden>
+          <li role="menuitem">Copy</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'menu-button-expanded')).toHaveLength(1)
+    })
+
+    it('should fail when aria-expanded="true" but the menu is hidden', async () => {
+      const html = `
+        <button aria-haspopup="menu" aria-expanded="true" aria-controls="actions">Actions</button>
+        <ul role="menu" id="actions" hidden>
+          <li role="menuitem">Copy</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'menu-button-expanded-state')).toHaveLength(1)
+    })
+
+    it('should fail when aria-expanded="false" but the menu is visible', async () => {
+      const html = `
+        <button aria-haspopup="menu" aria-expanded="false" aria-controls="actions">Actions</button>
+        <ul role="menu" id="actions">
+          <li role="menuitem">Copy</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'menu-button-expanded-state')).toHaveLength(1)
+    })
+  })
+
+  describe('Perfect Menu Button', () => {
+    it('should have no issues for an open, in-sync menu button', async () => {
+      const html = `
+        <button aria-haspopup="menu" aria-expanded="true" aria-controls="actions">Actions</button>
+        <ul role="menu" id="actions">
+          <li role="menuitem">Copy</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+})
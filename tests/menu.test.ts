@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { MenuPattern } from '../src/patterns/menu/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['menu'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string, index = 0) {
+  return result.patterns[index].issues.filter(i => i.ruleId === ruleId)
+}
+
+const WELL_FORMED_MENUBAR = `
+  <ul role="menubar" aria-label="Main">
+    <li role="none">
+      <a role="menuitem" href="#" aria-haspopup="menu" aria-expanded="false">About</a>
+      <ul role="menu" aria-label="About">
+        <li role="none"><a role="menuitem" href="#">Team</a></li>
+        <li role="separator"></li>
+        <li role="none"><a role="menuitem" href="#">History</a></li>
+      </ul>
+    </li>
+    <li role="none"><a role="menuitem" href="#">Contact</a></li>
+  </ul>
+`
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Menu Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect menubar and its submenu', async () => {
+      const result = await analyzeHTML(WELL_FORMED_MENUBAR)
+
+      expect(result.summary.patternsFound).toBe(2)
+      expect(result.patterns[0].type).toBe('menu')
+      expect(result.patterns[0].detectionMethod).toBe('explicit-role')
+      expect((result.patterns[0] as MenuPattern).metadata.isMenubar).toBe(true)
+      expect((result.patterns[1] as MenuPattern).metadata.isMenubar).toBe(false)
+    })
+
+    it('should not count submenu items as items of the menubar', async () => {
+      const result = await analyzeHTML(WELL_FORMED_MENUBAR)
+      const menubar = result.patterns[0] as MenuPattern
+
+      expect(menubar.relatedElements.items).toHaveLength(2)
+      expect(menubar.relatedElements.submenuTriggers).toHaveLength(1)
+    })
+
+    it('should detect menu items outside of any menu', async () => {
+      const html = `
+        <div class="dropdown">
+          <a role="menuitem" href="#">Profile</a>
+          <a role="menuitem" href="#">Sign out</a>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const orphaned = result.patterns[0] as MenuPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(orphaned.detectionMethod).toBe('heuristic')
+      expect(orphaned.confidence).toBe('medium')
+      expect(orphaned.metadata.isOrphaned).toBe(true)
+      expect(issuesFor(result, 'menu-item-context')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Ownership', () => {
+    it('should fail when menu contains non-menu children', async () => {
+      const html = `
+        <ul role="menu" aria-label="Actions">
+          <li><a role="menuitem" href="#">Copy</a></li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'menu-invalid-children')).toHaveLength(1)
+      expect(issuesFor(result, 'menu-item-context')).toHaveLength(1)
+    })
+
+    it('should pass when menu items are grouped', async () => {
+      const html = `
+        <div role="menu" aria-label="Format">
+          <div role="group" aria-label="Alignment">
+            <div role="menuitemradio" aria-checked="true">Left</div>
+            <div role="menuitemradio" aria-checked="false">Right</div>
+          </div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+
+    it('should fail when menu has no items', async () => {
+      const result = await analyzeHTML(`<div role="menu" aria-label="Empty"></div>`)
+
+      expect(issuesFor(result, 'menu-has-items')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Checkable items', () => {
+    it('should fail when menuitemcheckbox has no aria-checked', async () => {
+      const html = `
+        <div role="menu" aria-label="View">
+          <div role="menuitemcheckbox">Show ruler</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'menu-item-checked')).toHaveLength(1)
+      expect(issuesFor(result, 'menu-item-checked')[0].severity).toBe('error')
+    })
+  })
+
+  describe('Validation - Submenus', () => {
+    it('should fail when submenu parent lacks aria-haspopup and aria-expanded', async () => {
+      const html = `
+        <ul role="menubar" aria-label="Main">
+          <li role="none">
+            <a role="menuitem" href="#">About</a>
+            <ul role="menu" aria-label="About">
+              <li role="none"><a role="menuitem" href="#">Team</a></li>
+            </ul>
+          </li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'menu-submenu-haspopup')).toHaveLength(1)
+      expect(issuesFor(result, 'menu-submenu-expanded')).toHaveLength(1)
+    })
+
+    it('should fail when aria-haspopup item lacks aria-expanded', async () => {
+      const html = `
+        <div role="menubar" aria-label="Main">
+          <div role="menuitem" aria-haspopup="menu" aria-controls="file-menu">File</div>
+        </div>
+        <div role="menu" id="file-menu" aria-label="File">
+          <div role="menuitem">Open</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'menu-submenu-expanded')).toHaveLength(1)
+      expect(issuesFor(result, 'menu-submenu-haspopup')).toHaveLength(0)
+    })
+  })
+
+  describe('Perfect Menubar', () => {
+    it('should have no issues for a well-formed menubar', async () => {
+      const result = await analyzeHTML(WELL_FORMED_MENUBAR)
+
+      expect(result.summary.errors).toBe(0)
+      result.patterns.forEach(pattern => {
+        expect(pattern.issues).toHaveLength(0)
+      })
+    })
+  })
+})
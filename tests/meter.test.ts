@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { MeterPattern } from '../src/patterns/meter/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['meter'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Meter Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect custom progressbar', async () => {
+      const html = `
+        <div role="progressbar" aria-label="Upload progress"
+             aria-valuenow="40" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+      const meter = result.patterns[0] as MeterPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(meter.type).toBe('meter')
+      expect(meter.metadata.role).toBe('progressbar')
+      expect(meter.metadata.isIndeterminate).toBe(false)
+      expect(meter.issues).toHaveLength(0)
+    })
+
+    it('should detect native meter and progress', async () => {
+      const html = `
+        <label>Disk usage <meter value="0.6" aria-valuetext="60 of 100 GB"></meter></label>
+        <label>Upload <progress value="30" max="100"></progress></label>
+      `
+
+      const result = await analyzeHTML(html)
+      const [meter, progress] = result.patterns as MeterPattern[]
+
+      expect(result.summary.patternsFound).toBe(2)
+      expect(meter.detectionMethod).toBe('native-element')
+      expect(meter.metadata.role).toBe('meter')
+      expect(meter.metadata.valueMax).toBe(1)
+      expect(progress.metadata.role).toBe('progressbar')
+      expect(progress.metadata.valueNow).toBe(30)
+      expect(result.patterns.flatMap(p => p.issues)).toHaveLength(0)
+    })
+
+    it('should treat progressbar without value as indeterminate', async () => {
+      const html = `
+        <progress aria-label="Loading"></progress>
+      `
+
+      const result = await analyzeHTML(html)
+      const progress = result.patterns[0] as MeterPattern
+
+      expect(progress.metadata.isIndeterminate).toBe(true)
+      expect(progress.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Value', () => {
+    it('should fail when meter has no value', async () => {
+      const html = `
+        <div role="meter" aria-label="Battery" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'meter-value-required')).toHaveLength(1)
+    })
+
+    it('should fail when value is out of range', async () => {
+      const html = `
+        <div role="progressbar" aria-label="Upload"
+             aria-valuenow="140" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'meter-value-range')).toHaveLength(1)
+    })
+
+    it('should apply the default range when min and max are missing', async () => {
+      const inRange = `
+        <div role="progressbar" aria-label="Upload" aria-valuenow="40"></div>
+      `
+      const outOfRange = `
+        <div role="progressbar" aria-label="Upload" aria-valuenow="150"></div>
+      `
+
+      const passing = await analyzeHTML(inRange)
+      expect(passing.patterns[0].issues).toHaveLength(0)
+
+      const failing = await analyzeHTML(outOfRange)
+      expect(issuesFor(failing, 'meter-value-range')).toHaveLength(1)
+    })
+
+    it('should warn when indeterminate progressbar announces a value', async () => {
+      const html = `
+        <div role="progressbar" aria-label="Upload" aria-valuetext="50%"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'meter-indeterminate')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Name and text', () => {
+    it('should fail when meter has no accessible name', async () => {
+      const html = `
+        <div role="meter" aria-valuenow="50" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'meter-name')).toHaveLength(1)
+    })
+
+    it('should recommend aria-valuetext for non-percentage ranges', async () => {
+      const html = `
+        <div role="meter" aria-label="Storage" aria-valuenow="3" aria-valuemin="0" aria-valuemax="5"></div>
+      `
+
+      const result = await analyzeHTML(html)
+      const issues = issuesFor(result, 'meter-valuetext')
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].severity).toBe('warning')
+    })
+  })
+})
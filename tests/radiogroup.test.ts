@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { RadioGroupPattern } from '../src/patterns/radiogroup/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['radiogroup'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Radio Group Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect custom radiogroup', async () => {
+      const html = `
+        <div role="radiogroup" aria-label="Shipping">
+          <div role="radio" aria-checked="true" tabindex="0">Standard</div>
+          <div role="radio" aria-checked="false" tabindex="-1">Express</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const group = result.patterns[0] as RadioGroupPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(group.type).toBe('radiogroup')
+      expect(group.relatedElements.radios).toHaveLength(2)
+      expect(group.issues).toHaveLength(0)
+    })
+
+    it('should group native radios by name', async () => {
+      const html = `
+        <fieldset>
+          <legend>Size</legend>
+          <label><input type="radio" name="size" value="s"> Small</label>
+          <label><input type="radio" name="size" value="l" checked> Large</label>
+        </fieldset>
+        <fieldset>
+          <legend>Color</legend>
+          <label><input type="radio" name="color" value="red"> Red</label>
+        </fieldset>
+      `
+
+      const result = await analyzeHTML(html)
+      const size = result.patterns[0] as RadioGroupPattern
+
+      expect(result.summary.patternsFound).toBe(2)
+      expect(size.detectionMethod).toBe('native-element')
+      expect(size.metadata.name).toBe('size')
+      expect(size.element.tagName.toLowerCase()).toBe('fieldset')
+      expect(size.relatedElements.checkedRadios).toHaveLength(1)
+      expect(size.issues).toHaveLength(0)
+    })
+
+    it('should keep same-named radios in different forms apart', async () => {
+      const html = `
+        <form><input type="radio" name="plan" aria-label="Basic"></form>
+        <form><input type="radio" name="plan" aria-label="Pro"></form>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(2)
+    })
+  })
+
+  describe('Validation - Label', () => {
+    it('should fail when native radios have no fieldset or group name', async () => {
+      const html = `
+        <div>
+          <label><input type="radio" name="size"> Small</label>
+          <label><input type="radio" name="size"> Large</label>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'radiogroup-label')).toHaveLength(1)
+    })
+
+    it('should fail when custom radiogroup has no accessible name', async () => {
+      const html = `
+        <div role="radiogroup">
+          <div role="radio" aria-checked="false" tabindex="0">Standard</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'radiogroup-label')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Checked state', () => {
+    it('should fail when several custom radios are checked', async () => {
+      const html = `
+        <div role="radiogroup" aria-label="Shipping">
+          <div role="radio" aria-checked="true" tabindex="0">Standard</div>
+          <div role="radio" aria-checked="true" tabindex="-1">Express</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'radiogroup-single-checked')).toHaveLength(1)
+    })
+
+    it('should fail when a custom radio lacks aria-checked', async () => {
+      const html = `
+        <div role="radiogroup" aria-label="Shipping">
+          <div role="radio" tabindex="0">Standard</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'radiogroup-aria-checked')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Roving tabindex', () => {
+    it('should fail when an unchecked radio holds the tab stop', async () => {
+      const html = `
+        <div role="radiogroup" aria-label="Shipping">
+          <div role="radio" aria-checked="false" tabindex="0">Standard</div>
+          <div role="radio" aria-checked="true" tabindex="-1">Express</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'radiogroup-roving-tabindex')).toHaveLength(1)
+    })
+
+    it('should expect the first radio to be tabbable when none is checked', async () => {
+      const html = `
+        <div role="radiogroup" aria-label="Shipping">
+          <div role="radio" aria-checked="false" tabindex="0">Standard</div>
+          <div role="radio" aria-checked="false" tabindex="-1">Express</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'radiogroup-roving-tabindex')).toHaveLength(0)
+    })
+
+    it('should not require roving tabindex for native radios in a radiogroup', async () => {
+      const html = `
+        <div role="radiogroup" aria-label="Shipping">
+          <label><input type="radio" name="shipping" checked> Standard</label>
+          <label><input type="radio" name="shipping"> Express</label>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'radiogroup-roving-tabindex')).toHaveLength(0)
+    })
+  })
+})
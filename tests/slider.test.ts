@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { SliderPattern } from '../src/patterns/slider/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['slider'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Slider Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect custom slider', async () => {
+      const html = `
+        <div role="slider" tabindex="0" aria-label="Volume"
+             aria-valuenow="40" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+      const slider = result.patterns[0] as SliderPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(slider.type).toBe('slider')
+      expect(slider.metadata.valueNow).toBe(40)
+      expect(slider.metadata.isMultiThumb).toBe(false)
+      expect(slider.issues).toHaveLength(0)
+    })
+
+    it('should detect native range input', async () => {
+      const html = `
+        <label>Brightness <input type="range" min="10" max="20" value="15"></label>
+      `
+
+      const result = await analyzeHTML(html)
+      const slider = result.patterns[0] as SliderPattern
+
+      expect(slider.detectionMethod).toBe('native-element')
+      expect(slider.metadata.valueMin).toBe(10)
+      expect(slider.metadata.valueMax).toBe(20)
+      expect(slider.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Value', () => {
+    it('should fail when aria-valuenow is missing', async () => {
+      const html = `
+        <div role="slider" tabindex="0" aria-label="Volume"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'slider-value-required')).toHaveLength(1)
+    })
+
+    it('should fail when value is out of range', async () => {
+      const html = `
+        <div role="slider" tabindex="0" aria-label="Volume"
+             aria-valuenow="120" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'slider-value-range')).toHaveLength(1)
+    })
+
+    it('should fail when aria-orientation is invalid', async () => {
+      const html = `
+        <div role="slider" tabindex="0" aria-label="Volume" aria-orientation="diagonal"
+             aria-valuenow="40" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'slider-orientation-valid')).toHaveLength(1)
+    })
+
+    it('should recommend aria-valuetext for formatted values', async () => {
+      const html = `
+        <div role="slider" tabindex="0" aria-label="Price"
+             aria-valuenow="20" aria-valuemin="0" aria-valuemax="100">$20</div>
+      `
+
+      const result = await analyzeHTML(html)
+      const issues = issuesFor(result, 'slider-valuetext')
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].severity).toBe('warning')
+    })
+  })
+
+  describe('Validation - Multi-thumb', () => {
+    it('should pass when thumbs are bounded by each other', async () => {
+      const html = `
+        <div role="group" aria-label="Price range">
+          <div role="slider" tabindex="0" aria-label="Minimum price"
+               aria-valuenow="20" aria-valuemin="0" aria-valuemax="80"></div>
+          <div role="slider" tabindex="0" aria-label="Maximum price"
+               aria-valuenow="80" aria-valuemin="20" aria-valuemax="100"></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const slider = result.patterns[0] as SliderPattern
+
+      expect(slider.metadata.isMultiThumb).toBe(true)
+      expect(slider.relatedElements.thumbs).toHaveLength(2)
+      expect(result.patterns.flatMap(p => p.issues)).toHaveLength(0)
+    })
+
+    it('should fail when a thumb can move past the other', async () => {
+      const html = `
+        <div role="group" aria-label="Price range">
+          <div role="slider" tabindex="0" aria-label="Minimum price"
+               aria-valuenow="20" aria-valuemin="0" aria-valuemax="100"></div>
+          <div role="slider" tabindex="0" aria-label="Maximum price"
+               aria-valuenow="80" aria-valuemin="0" aria-valuemax="100"></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const issues = result.patterns.flatMap(p => p.issues).filter(i => i.ruleId === 'slider-thumb-bounds')
+
+      expect(issues).toHaveLength(2)
+    })
+
+    it('should fail when thumbs share a name', async () => {
+      const html = `
+        <div role="group" aria-label="Price range">
+          <div role="slider" tabindex="0" aria-label="Price"
+               aria-valuenow="20" aria-valuemin="0" aria-valuemax="80"></div>
+          <div role="slider" tabindex="0" aria-label="Price"
+               aria-valuenow="80" aria-valuemin="20" aria-valuemax="100"></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'slider-thumb-names')).toHaveLength(1)
+    })
+
+    it('should group thumbs that share a rail', async () => {
+      const html = `
+        <div class="range-rail">
+          <div role="slider" tabindex="0" aria-label="Minimum price"
+               aria-valuenow="20" aria-valuemin="0" aria-valuemax="80"></div>
+          <div role="slider" tabindex="0" aria-label="Maximum price"
+               aria-valuenow="80" aria-valuemin="20" aria-valuemax="100"></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const slider = result.patterns[0] as SliderPattern
+
+      expect(slider.metadata.isMultiThumb).toBe(true)
+    })
+
+    it('should not group separate sliders that share a parent', async () => {
+      const html = `
+        <div>
+          <div role="slider" tabindex="0" aria-label="Red"
+               aria-valuenow="20" aria-valuemin="0" aria-valuemax="255"></div>
+          <div role="slider" tabindex="0" aria-label="Green"
+               aria-valuenow="80" aria-valuemin="0" aria-valuemax="255"></div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns.every(p => !(p as SliderPattern).metadata.isMultiThumb)).toBe(true)
+      expect(result.patterns.flatMap(p => p.issues)).toHaveLength(0)
+    })
+  })
+})
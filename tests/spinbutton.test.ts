@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { SpinbuttonPattern } from '../src/patterns/spinbutton/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['spinbutton'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Spinbutton Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect custom spinbutton with step buttons', async () => {
+      const html = `
+        <div>
+          <button tabindex="-1" aria-label="Decrease quantity">-</button>
+          <div role="spinbutton" tabindex="0" aria-label="Quantity"
+               aria-valuenow="2" aria-valuemin="1" aria-valuemax="10">2</div>
+          <button tabindex="-1" aria-label="Increase quantity">+</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const spinbutton = result.patterns[0] as SpinbuttonPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(spinbutton.type).toBe('spinbutton')
+      expect(spinbutton.relatedElements.stepButtons).toHaveLength(2)
+      expect(spinbutton.issues).toHaveLength(0)
+    })
+
+    it('should detect native number input', async () => {
+      const html = `
+        <label>Guests <input type="number" min="1" max="8" value="2"></label>
+      `
+
+      const result = await analyzeHTML(html)
+      const spinbutton = result.patterns[0] as SpinbuttonPattern
+
+      expect(spinbutton.detectionMethod).toBe('native-element')
+      expect(spinbutton.metadata.valueNow).toBe(2)
+      expect(spinbutton.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Value', () => {
+    it('should fail when a displayed value has no aria-valuenow', async () => {
+      const html = `
+        <div role="spinbutton" tabindex="0" aria-label="Quantity">2</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'spinbutton-value-required')).toHaveLength(1)
+    })
+
+    it('should allow missing aria-valuenow when the value is empty', async () => {
+      const html = `
+        <div role="spinbutton" tabindex="0" aria-label="Quantity"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'spinbutton-value-required')).toHaveLength(0)
+    })
+
+    it('should fail when value is out of range', async () => {
+      const html = `
+        <div role="spinbutton" tabindex="0" aria-label="Quantity"
+             aria-valuenow="0" aria-valuemin="1" aria-valuemax="10">0</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'spinbutton-value-range')).toHaveLength(1)
+    })
+
+    it('should fail when value attributes are not numbers', async () => {
+      const html = `
+        <div role="spinbutton" tabindex="0" aria-label="Quantity"
+             aria-valuenow="two" aria-valuemin="1">two</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'spinbutton-value-numeric')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Name and buttons', () => {
+    it('should fail when spinbutton has no accessible name', async () => {
+      const html = `
+        <div role="spinbutton" tabindex="0" aria-valuenow="2">2</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'spinbutton-name')).toHaveLength(1)
+    })
+
+    it('should flag step buttons in the tab sequence', async () => {
+      const html = `
+        <div>
+          <div role="spinbutton" tabindex="0" aria-label="Quantity" aria-valuenow="2">2</div>
+          <button aria-label="Increase quantity">+</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const issues = issuesFor(result, 'spinbutton-step-button-tabindex')
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].severity).toBe('warning')
+    })
+
+    it('should flag step buttons labelled only with symbols', async () => {
+      const html = `
+        <div role="spinbutton" id="qty" tabindex="0" aria-label="Quantity" aria-valuenow="2">2</div>
+        <div>
+          <button tabindex="-1" aria-controls="qty">+</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'spinbutton-step-button-name')).toHaveLength(1)
+    })
+  })
+})
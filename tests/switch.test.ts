@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { SwitchPattern } from '../src/patterns/switch/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['switch'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Switch Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect custom switch', async () => {
+      const html = `
+        <button role="switch" aria-checked="true">Notifications</button>
+      `
+
+      const result = await analyzeHTML(html)
+      const toggle = result.patterns[0] as SwitchPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(toggle.type).toBe('switch')
+      expect(toggle.metadata.isNative).toBe(false)
+      expect(toggle.metadata.name).toBe('Notifications')
+      expect(toggle.issues).toHaveLength(0)
+    })
+
+    it('should detect native checkbox switch', async () => {
+      const html = `
+        <input type="checkbox" role="switch" id="dark">
+        <label for="dark">Dark mode</label>
+      `
+
+      const result = await analyzeHTML(html)
+      const toggle = result.patterns[0] as SwitchPattern
+
+      expect(toggle.metadata.isNative).toBe(true)
+      expect(toggle.relatedElements.label?.textContent).toBe('Dark mode')
+      expect(toggle.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - State', () => {
+    it('should fail when custom switch has no aria-checked', async () => {
+      const html = `
+        <button role="switch">Notifications</button>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'switch-checked-required')).toHaveLength(1)
+    })
+
+    it('should fail when aria-checked is mixed', async () => {
+      const html = `
+        <button role="switch" aria-checked="mixed">Notifications</button>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'switch-checked-value')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Name', () => {
+    it('should fail when switch has no accessible name', async () => {
+      const html = `
+        <button role="switch" aria-checked="false"></button>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'switch-name')).toHaveLength(1)
+    })
+
+    it('should warn when the name contains state text', async () => {
+      const html = `
+        <button role="switch" aria-checked="true">Notifications: On</button>
+      `
+
+      const result = await analyzeHTML(html)
+      const issues = issuesFor(result, 'switch-name-state-text')
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0].severity).toBe('warning')
+    })
+
+    it('should not warn when "on" is part of a longer label', async () => {
+      const html = `
+        <button role="switch" aria-checked="true">Turn on notifications</button>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'switch-name-state-text')).toHaveLength(0)
+    })
+
+    it('should ignore aria-hidden state text in the name', async () => {
+      const html = `
+        <div role="switch" aria-checked="false" tabindex="0">
+          <span class="label">Notifications</span>
+          <span class="switch" aria-hidden="true">
+            <span class="on">On</span><span class="off">Off</span>
+          </span>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns[0].metadata.name).toBe('Notifications')
+      expect(issuesFor(result, 'switch-name-state-text')).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { TabsPattern } from '../src/patterns/tabs/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['tabs'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+const WELL_FORMED_TABS = `
+  <div role="tablist" aria-label="Settings">
+    <button role="tab" id="tab-1" aria-selected="true" aria-controls="panel-1">General</button>
+    <button role="tab" id="tab-2" aria-selected="false" aria-controls="panel-2" tabindex="-1">Privacy</button>
+  </div>
+  <div role="tabpanel" id="panel-1" aria-labelledby="tab-1">General settings</div>
+  <div role="tabpanel" id="panel-2" aria-labelledby="tab-2" hidden>Privacy settings</div>
+`
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Tabs Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect tablist with explicit role', async () => {
+      const result = await analyzeHTML(WELL_FORMED_TABS)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].type).toBe('tabs')
+      expect(result.patterns[0].confidence).toBe('high')
+      expect(result.patterns[0].detectionMethod).toBe('explicit-role')
+    })
+
+    it('should link tabs to their panels', async () => {
+      const result = await analyzeHTML(WELL_FORMED_TABS)
+      const tabs = result.patterns[0] as TabsPattern
+
+      expect(tabs.relatedElements.tabs).toHaveLength(2)
+      expect(tabs.relatedElements.panels).toHaveLength(2)
+      expect(tabs.relatedElements.selectedTabs).toHaveLength(1)
+    })
+
+    it('should find panels that only reference their tab via aria-labelledby', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings">
+          <button role="tab" id="tab-1" aria-selected="true">General</button>
+        </div>
+        <div role="tabpanel" aria-labelledby="tab-1">General settings</div>
+      `
+
+      const result = await analyzeHTML(html)
+      const tabs = result.patterns[0] as TabsPattern
+
+      expect(tabs.relatedElements.panels).toHaveLength(1)
+    })
+
+    it('should not count tabs of a nested tablist', async () => {
+      const html = `
+        <div role="tablist" aria-label="Outer">
+          <button role="tab" aria-selected="true">Outer</button>
+          <div role="tablist" aria-label="Inner">
+            <button role="tab" aria-selected="true">Inner</button>
+          </div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const outer = result.patterns[0] as TabsPattern
+
+      expect(result.summary.patternsFound).toBe(2)
+      expect(outer.relatedElements.tabs).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Selection', () => {
+    it('should fail when no tab is selected', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings">
+          <button role="tab" aria-controls="panel-1">General</button>
+        </div>
+        <div role="tabpanel" id="panel-1">General settings</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tabs-single-selected')).toHaveLength(1)
+      expect(issuesFor(result, 'tabs-single-selected')[0].severity).toBe('error')
+    })
+
+    it('should fail when more than one tab is selected', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings">
+          <button role="tab" aria-selected="true">General</button>
+          <button role="tab" aria-selected="true" tabindex="-1">Privacy</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tabs-single-selected')).toHaveLength(1)
+    })
+
+    it('should fail when tablist has no tabs', async () => {
+      const result = await analyzeHTML(`<div role="tablist" aria-label="Empty"></div>`)
+
+      expect(issuesFor(result, 'tabs-has-tabs')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Roving tabindex', () => {
+    it('should fail when every tab is in the tab sequence', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings">
+          <button role="tab" aria-selected="true">General</button>
+          <button role="tab" aria-selected="false">Privacy</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tabs-roving-tabindex')).toHaveLength(1)
+    })
+
+    it('should fail when an unselected tab holds the tab stop', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings">
+          <div role="tab" aria-selected="true" tabindex="-1">General</div>
+          <div role="tab" aria-selected="false" tabindex="0">Privacy</div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tabs-roving-tabindex')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Panels', () => {
+    it('should fail when a tab does not control a tabpanel', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings">
+          <button role="tab" aria-selected="true" aria-controls="missing">General</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tabs-controls-panel')).toHaveLength(1)
+    })
+
+    it('should warn when a panel is not labelled by its tab', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings">
+          <button role="tab" id="tab-1" aria-selected="true" aria-controls="panel-1">General</button>
+        </div>
+        <div role="tabpanel" id="panel-1">General settings</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tabs-panel-labelled')).toHaveLength(1)
+      expect(issuesFor(result, 'tabs-panel-labelled')[0].severity).toBe('warning')
+    })
+  })
+
+  describe('Validation - Orientation', () => {
+    it('should fail on an invalid aria-orientation value', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings" aria-orientation="diagonal">
+          <button role="tab" aria-selected="true">General</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tabs-orientation-valid')).toHaveLength(1)
+    })
+
+    it('should warn when a tab conflicts with the tablist orientation', async () => {
+      const html = `
+        <div role="tablist" aria-label="Settings" aria-orientation="vertical">
+          <button role="tab" aria-selected="true" aria-orientation="horizontal">General</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tabs-orientation-consistent')).toHaveLength(1)
+    })
+  })
+
+  describe('Perfect Tabs', () => {
+    it('should have no issues for well-formed tabs', async () => {
+      const result = await analyzeHTML(WELL_FORMED_TABS)
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { ToolbarPattern } from '../src/patterns/toolbar/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['toolbar'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Toolbar Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect toolbar with roving tabindex', async () => {
+      const html = `
+        <div role="toolbar" aria-label="Text formatting">
+          <button tabindex="0">Bold</button>
+          <button tabindex="-1">Italic</button>
+          <button tabindex="-1">Underline</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const toolbar = result.patterns[0] as ToolbarPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(toolbar.type).toBe('toolbar')
+      expect(toolbar.relatedElements.controls).toHaveLength(3)
+      expect(toolbar.relatedElements.tabbableControls).toHaveLength(1)
+      expect(toolbar.issues).toHaveLength(0)
+    })
+
+    it('should collect nested menu buttons and radio groups', async () => {
+      const html = `
+        <div role="toolbar" aria-label="Editor">
+          <div role="radiogroup" aria-label="Alignment">
+            <div role="radio" aria-checked="true" tabindex="0">Left</div>
+            <div role="radio" aria-checked="false" tabindex="-1">Right</div>
+          </div>
+          <button tabindex="-1" aria-haspopup="menu" aria-expanded="false" aria-controls="font-menu">Font</button>
+          <ul role="menu" id="font-menu" hidden>
+            <li role="menuitem" tabindex="-1">Serif</li>
+          </ul>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+      const toolbar = result.patterns[0] as ToolbarPattern
+
+      expect(toolbar.metadata.nestedPatterns.map(p => p.type)).toEqual(['menu-button', 'radiogroup'])
+      expect(toolbar.relatedElements.controls).toHaveLength(3)
+      expect(toolbar.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Label', () => {
+    it('should not require a label for a single toolbar', async () => {
+      const html = `
+        <div role="toolbar">
+          <button tabindex="0">Bold</button>
+          <button tabindex="-1">Italic</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'toolbar-label')).toHaveLength(0)
+    })
+
+    it('should fail when one of several toolbars has no label', async () => {
+      const html = `
+        <div role="toolbar">
+          <button tabindex="0">Bold</button>
+          <button tabindex="-1">Italic</button>
+        </div>
+        <div role="toolbar" aria-label="Insert">
+          <button tabindex="0">Image</button>
+          <button tabindex="-1">Table</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'toolbar-label')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Controls', () => {
+    it('should warn when toolbar has a single control', async () => {
+      const html = `
+        <div role="toolbar" aria-label="Text formatting">
+          <button>Bold</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'toolbar-has-controls')).toHaveLength(1)
+    })
+
+    it('should fail when every control is in the tab sequence', async () => {
+      const html = `
+        <div role="toolbar" aria-label="Text formatting">
+          <button>Bold</button>
+          <button>Italic</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'toolbar-single-tab-stop')).toHaveLength(1)
+    })
+
+    it('should fail when aria-orientation is invalid', async () => {
+      const html = `
+        <div role="toolbar" aria-label="Text formatting" aria-orientation="sideways">
+          <button tabindex="0">Bold</button>
+          <button tabindex="-1">Italic</button>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'toolbar-orientation-valid')).toHaveLength(1)
+    })
+
+    it('should fail when a nested radio group has errors', async () => {
+      const html = `
+        <div role="toolbar" aria-label="Editor">
+          <button tabindex="0">Bold</button>
+          <div role="radiogroup" aria-label="Alignment">
+            <div role="radio" tabindex="-1">Left</div>
+            <div role="radio" tabindex="-1">Right</div>
+          </div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'toolbar-nested-controls')).toHaveLength(1)
+    })
+
+    it('should not require roving tabindex inside a nested radio group', async () => {
+      const html = `
+        <div role="toolbar" aria-label="Editor">
+          <button tabindex="0">Bold</button>
+          <div role="radiogroup" aria-label="Alignment">
+            <div role="radio" aria-checked="true" tabindex="-1">Left</div>
+            <div role="radio" aria-checked="false" tabindex="-1">Right</div>
+          </div>
+        </div>
+      `
+
+      const result = await analyzeHTML(html, { analyzerConfig: { patterns: undefined } })
+      const toolbar = result.patterns.find(p => p.type === 'toolbar')
+      const radiogroup = result.patterns.find(p => p.type === 'radiogroup')
+
+      expect(toolbar?.issues).toHaveLength(0)
+      expect(radiogroup?.issues).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { TooltipPattern } from '../src/patterns/tooltip/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['tooltip'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Tooltip Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect tooltip and its owner', async () => {
+      const html = `
+        <button aria-describedby="tip">Save</button>
+        <div id="tip" role="tooltip">Saves the document</div>
+      `
+
+      const result = await analyzeHTML(html)
+      const tooltip = result.patterns[0] as TooltipPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(tooltip.type).toBe('tooltip')
+      expect(tooltip.relatedElements.owners).toHaveLength(1)
+      expect(tooltip.issues).toHaveLength(0)
+    })
+
+    it('should detect title attribute tooltips on controls', async () => {
+      const html = `<button title="Saves the document">Save</button>`
+
+      const result = await analyzeHTML(html)
+      const tooltip = result.patterns[0] as TooltipPattern
+
+      expect(tooltip.detectionMethod).toBe('native-element')
+      expect(tooltip.confidence).toBe('medium')
+      expect(tooltip.metadata.isTitleAttribute).toBe(true)
+      expect(tooltip.issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Owners', () => {
+    it('should fail when no element references the tooltip', async () => {
+      const result = await analyzeHTML(`<div id="tip" role="tooltip">Orphan</div>`)
+
+      expect(issuesFor(result, 'tooltip-referenced')).toHaveLength(1)
+    })
+
+    it('should fail when the owner cannot receive focus', async () => {
+      const html = `
+        <span aria-describedby="tip">Hover me</span>
+        <div id="tip" role="tooltip">Hover-only text</div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tooltip-owner-focusable')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Content', () => {
+    it('should warn when the tooltip contains focusable content', async () => {
+      const html = `
+        <button aria-describedby="tip">Help</button>
+        <div id="tip" role="tooltip">See <a href="/docs">the docs</a></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tooltip-focusable-content')).toHaveLength(1)
+      expect(issuesFor(result, 'tooltip-focusable-content')[0].severity).toBe('warning')
+    })
+  })
+
+  describe('Validation - Title attribute', () => {
+    it('should warn when title is the only accessible name', async () => {
+      const html = `<button title="Delete"><svg aria-hidden="true"></svg></button>`
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tooltip-title-only-name')).toHaveLength(1)
+    })
+
+    it('should pass when the control is labelled another way', async () => {
+      const html = `<input type="text" aria-label="Search" title="Search the site">`
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tooltip-title-only-name')).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { TreePattern } from '../src/patterns/tree/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['tree'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+const WELL_FORMED_TREE = `
+  <ul role="tree" aria-label="Files">
+    <li role="treeitem" aria-expanded="true" aria-level="1" aria-setsize="2" aria-posinset="1" tabindex="0">
+      <span>src</span>
+      <ul role="group">
+        <li role="treeitem" aria-level="2" aria-setsize="2" aria-posinset="1" tabindex="-1">index.ts</li>
+        <li role="treeitem" aria-level="2" aria-setsize="2" aria-posinset="2" tabindex="-1">util.ts</li>
+      </ul>
+    </li>
+    <li role="treeitem" aria-level="1" aria-setsize="2" aria-posinset="2" tabindex="-1">README.md</li>
+  </ul>
+`
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Tree Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should walk nested groups', async () => {
+      const result = await analyzeHTML(WELL_FORMED_TREE)
+      const tree = result.patterns[0] as TreePattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(tree.type).toBe('tree')
+      expect(tree.relatedElements.items).toHaveLength(4)
+      expect(tree.relatedElements.parentItems).toHaveLength(1)
+      expect(tree.metadata.positions.map(p => p.level)).toEqual([1, 2, 2, 1])
+    })
+  })
+
+  describe('Validation - Hierarchy', () => {
+    it('should fail when aria-level does not match the nesting depth', async () => {
+      const html = `
+        <ul role="tree" aria-label="Files">
+          <li role="treeitem" aria-expanded="true" tabindex="0">
+            src
+            <ul role="group">
+              <li role="treeitem" aria-level="1" tabindex="-1">index.ts</li>
+            </ul>
+          </li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tree-level')).toHaveLength(1)
+    })
+
+    it('should fail when aria-setsize does not match the siblings', async () => {
+      const html = `
+        <ul role="tree" aria-label="Files">
+          <li role="treeitem" aria-setsize="3" aria-posinset="1" tabindex="0">a.ts</li>
+          <li role="treeitem" aria-setsize="3" aria-posinset="2" tabindex="-1">b.ts</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tree-setsize-posinset')).toHaveLength(1)
+    })
+
+    it('should fail when aria-posinset does not match the position', async () => {
+      const html = `
+        <ul role="tree" aria-label="Files">
+          <li role="treeitem" aria-posinset="2" tabindex="0">a.ts</li>
+          <li role="treeitem" aria-posinset="1" tabindex="-1">b.ts</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tree-setsize-posinset')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - aria-expanded', () => {
+    it('should fail when a parent node lacks aria-expanded', async () => {
+      const html = `
+        <ul role="tree" aria-label="Files">
+          <li role="treeitem" tabindex="0">
+            src
+            <ul role="group"><li role="treeitem" tabindex="-1">index.ts</li></ul>
+          </li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tree-parent-expanded')).toHaveLength(1)
+    })
+
+    it('should fail when a leaf node has aria-expanded="true"', async () => {
+      const html = `
+        <ul role="tree" aria-label="Files">
+          <li role="treeitem" aria-expanded="true" tabindex="0">a.ts</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tree-leaf-expanded')).toHaveLength(1)
+    })
+
+    it('should accept collapsed parents whose children load on expand', async () => {
+      const html = `
+        <ul role="tree" aria-label="Files">
+          <li role="treeitem" aria-expanded="false" tabindex="0">src</li>
+          <li role="treeitem" tabindex="-1">README.md</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+
+  describe('Validation - Tab sequence', () => {
+    it('should fail when several treeitems are tabbable', async () => {
+      const html = `
+        <ul role="tree" aria-label="Files">
+          <li role="treeitem" tabindex="0">a.ts</li>
+          <li role="treeitem" tabindex="0">b.ts</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tree-single-tab-stop')).toHaveLength(1)
+    })
+
+    it('should pass when the tree uses aria-activedescendant', async () => {
+      const html = `
+        <ul role="tree" aria-label="Files" tabindex="0" aria-activedescendant="a">
+          <li id="a" role="treeitem">a.ts</li>
+          <li role="treeitem">b.ts</li>
+        </ul>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'tree-single-tab-stop')).toHaveLength(0)
+    })
+  })
+
+  describe('Perfect Tree', () => {
+    it('should have no issues for a well-formed tree', async () => {
+      const result = await analyzeHTML(WELL_FORMED_TREE)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Analyzer } from '../src/core/analyzer'
+import type { RunnerConfig } from '../src/core/types'
+import type { WindowSplitterPattern } from '../src/patterns/window-splitter/types'
+
+/**
+ * Helper to analyze HTML in browser mode
+ */
+function analyzeHTML(html: string, config?: RunnerConfig) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  document.body.appendChild(container)
+
+  const analyzer = new Analyzer(document, {
+    patterns: ['window-splitter'],
+    ...config?.analyzerConfig,
+  })
+  const result = analyzer.analyze()
+
+  document.body.removeChild(container)
+
+  return Promise.resolve(result)
+}
+
+function issuesFor(result: Awaited<ReturnType<typeof analyzeHTML>>, ruleId: string) {
+  return result.patterns[0].issues.filter(i => i.ruleId === ruleId)
+}
+
+beforeEach(() => {
+  document.body.innerHTML = ''
+})
+
+describe('Window Splitter Pattern Detection', () => {
+  describe('Detection', () => {
+    it('should detect focusable separator', async () => {
+      const html = `
+        <nav id="toc" aria-label="Table of contents">Contents</nav>
+        <div role="separator" tabindex="0" aria-label="Table of contents" aria-controls="toc"
+             aria-valuenow="30" aria-valuemin="10" aria-valuemax="60"></div>
+        <main>Editor</main>
+      `
+
+      const result = await analyzeHTML(html)
+      const splitter = result.patterns[0] as WindowSplitterPattern
+
+      expect(result.summary.patternsFound).toBe(1)
+      expect(splitter.type).toBe('window-splitter')
+      expect(splitter.confidence).toBe('high')
+      expect(splitter.relatedElements.primaryPane?.id).toBe('toc')
+      expect(splitter.issues).toHaveLength(0)
+    })
+
+    it('should not detect static separators', async () => {
+      const html = `
+        <div role="separator"></div>
+        <hr>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.summary.patternsFound).toBe(0)
+    })
+
+    it('should detect unfocusable separator with splitter attributes', async () => {
+      const html = `
+        <div role="separator" aria-valuenow="50" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+      const splitter = result.patterns[0] as WindowSplitterPattern
+
+      expect(splitter.confidence).toBe('medium')
+      expect(issuesFor(result, 'window-splitter-focusable')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Value', () => {
+    it('should fail when value attributes are missing', async () => {
+      const html = `
+        <div id="pane" aria-label="Files"></div>
+        <div role="separator" tabindex="0" aria-label="Files" aria-controls="pane"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'window-splitter-value-required')).toHaveLength(1)
+    })
+
+    it('should fail when value is out of range', async () => {
+      const html = `
+        <div id="pane" aria-label="Files"></div>
+        <div role="separator" tabindex="0" aria-label="Files" aria-controls="pane"
+             aria-valuenow="80" aria-valuemin="0" aria-valuemax="50"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'window-splitter-value-range')).toHaveLength(1)
+    })
+  })
+
+  describe('Validation - Pane', () => {
+    it('should fail when aria-controls is missing', async () => {
+      const html = `
+        <div role="separator" tabindex="0" aria-label="Files"
+             aria-valuenow="30" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'window-splitter-controls')).toHaveLength(1)
+    })
+
+    it('should fail when name does not match the pane label', async () => {
+      const html = `
+        <div id="pane" aria-label="Files"></div>
+        <div role="separator" tabindex="0" aria-label="Resize" aria-controls="pane"
+             aria-valuenow="30" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(issuesFor(result, 'window-splitter-name')).toHaveLength(1)
+    })
+
+    it('should accept a name that contains the pane label', async () => {
+      const html = `
+        <div id="pane" aria-label="Files"></div>
+        <div role="separator" tabindex="0" aria-label="Resize files" aria-controls="pane"
+             aria-valuenow="30" aria-valuemin="0" aria-valuemax="100"></div>
+      `
+
+      const result = await analyzeHTML(html)
+
+      expect(result.patterns[0].issues).toHaveLength(0)
+    })
+  })
+})